@@ -27,6 +27,15 @@ const config: ExpoConfig = {
   web: {
     favicon: './assets/favicon.png',
   },
+  plugins: [
+    [
+      'expo-image-picker',
+      {
+        photosPermission: 'Harmony Hub uses your photo library to attach photos and videos to concerts and reviews.',
+      },
+    ],
+    'expo-notifications',
+  ],
   extra: {
     // Firebase configuration - these will be overridden by environment variables
     firebaseApiKey: process.env.FIREBASE_API_KEY || 'YOUR_API_KEY',
@@ -35,12 +44,18 @@ const config: ExpoConfig = {
     firebaseStorageBucket: process.env.FIREBASE_STORAGE_BUCKET || 'YOUR_STORAGE_BUCKET',
     firebaseMessagingSenderId: process.env.FIREBASE_MESSAGING_SENDER_ID || 'YOUR_MESSAGING_SENDER_ID',
     firebaseAppId: process.env.FIREBASE_APP_ID || 'YOUR_APP_ID',
+    storageEmulatorHost: process.env.FIREBASE_STORAGE_EMULATOR_HOST || '',
 
     // API Keys for external services
     ticketmasterApiKey: process.env.TICKETMASTER_API_KEY || '',
     musicbrainzApiKey: process.env.MUSICBRAINZ_API_KEY || '',
     googlePlacesApiKey: process.env.GOOGLE_PLACES_API_KEY || '',
 
+    // EAS project that Expo push tokens are issued for
+    eas: {
+      projectId: process.env.EAS_PROJECT_ID || '',
+    },
+
     // Environment
     environment: process.env.NODE_ENV || 'development',
   },
@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { theme } from '../types/theme';
+
+export interface BarChartEntry {
+  key: string;
+  label: string;
+  value: number;
+}
+
+type BarColor = 'primary' | 'secondary' | 'accent' | 'warning' | 'info' | 'success';
+
+interface BarChartProps {
+  data: BarChartEntry[];
+  maxValue?: number; // Defaults to the largest value
+  color?: BarColor;
+  formatValue?: (value: number) => string;
+}
+
+// Horizontal bars, one row per entry, e.g. top artists
+export const BarChart: React.FC<BarChartProps> = ({
+  data,
+  maxValue,
+  color = 'primary',
+  formatValue = String,
+}) => {
+  const max = maxValue ?? Math.max(...data.map((entry) => entry.value), 1);
+
+  return (
+    <View>
+      {data.map((entry) => (
+        <View key={entry.key} style={styles.row}>
+          <Text style={styles.label} numberOfLines={1}>{entry.label}</Text>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.fill,
+                { width: `${(entry.value / max) * 100}%`, backgroundColor: theme.colors[color] },
+              ]}
+            />
+          </View>
+          <Text style={styles.value}>{formatValue(entry.value)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+// Vertical columns along a time axis, e.g. shows per month
+export const ColumnChart: React.FC<BarChartProps> = ({
+  data,
+  maxValue,
+  color = 'primary',
+  formatValue = String,
+}) => {
+  const max = maxValue ?? Math.max(...data.map((entry) => entry.value), 1);
+
+  return (
+    <View style={styles.columns}>
+      {data.map((entry) => (
+        <View key={entry.key} style={styles.column}>
+          <Text style={styles.columnValue}>{entry.value > 0 ? formatValue(entry.value) : ''}</Text>
+          <View style={styles.columnTrack}>
+            <View
+              style={[
+                styles.columnFill,
+                { height: `${(entry.value / max) * 100}%`, backgroundColor: theme.colors[color] },
+              ]}
+            />
+          </View>
+          <Text style={styles.columnLabel} numberOfLines={1}>{entry.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    width: 110,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text,
+  },
+  track: {
+    flex: 1,
+    height: 10,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surfaceVariant,
+    overflow: 'hidden',
+    marginHorizontal: theme.spacing.sm,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.full,
+  },
+  value: {
+    minWidth: 28,
+    textAlign: 'right',
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.textSecondary,
+  },
+  columns: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  columnValue: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginBottom: 2,
+  },
+  columnTrack: {
+    width: '60%',
+    height: 120,
+    justifyContent: 'flex-end',
+  },
+  columnFill: {
+    width: '100%',
+    borderTopLeftRadius: theme.borderRadius.sm,
+    borderTopRightRadius: theme.borderRadius.sm,
+  },
+  columnLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+});
@@ -0,0 +1,165 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { LineupActFormData } from '../types';
+import { Button, Input, IconButton, Chip, MusicIcon, StarIcon, XIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface LineupEditorProps {
+  acts: LineupActFormData[];
+  onChange: (acts: LineupActFormData[]) => void;
+  isFestival: boolean;
+}
+
+const SET_TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+export const isValidSetTime = (setTime?: string): boolean =>
+  !setTime || SET_TIME_PATTERN.test(setTime.trim());
+
+export const LineupEditor: React.FC<LineupEditorProps> = ({ acts, onChange, isFestival }) => {
+  const updateAct = (index: number, changes: Partial<LineupActFormData>) => {
+    onChange(acts.map((act, i) => (i === index ? { ...act, ...changes } : act)));
+  };
+
+  const addAct = () => {
+    onChange([...acts, { artistName: '', role: isFestival ? 'festival' : 'support' }]);
+  };
+
+  const removeAct = (index: number) => {
+    onChange(acts.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View style={styles.container}>
+      {acts.map((act, index) => (
+        <View key={index} style={styles.actCard}>
+          <View style={styles.actHeader}>
+            <Input
+              placeholder={isFestival ? 'Artist on the bill' : 'Opening act'}
+              value={act.artistName}
+              onChangeText={(text) => updateAct(index, { artistName: text })}
+              leftIcon={<MusicIcon size="md" color="textSecondary" />}
+              autoCapitalize="words"
+              containerStyle={styles.nameInput}
+            />
+            <IconButton
+              icon={<XIcon size="sm" color="error" />}
+              onPress={() => removeAct(index)}
+              variant="ghost"
+              size="sm"
+            />
+          </View>
+
+          <View style={styles.roleRow}>
+            <Chip
+              label="Support"
+              active={act.role === 'support'}
+              onPress={() => updateAct(index, { role: 'support' })}
+            />
+            <Chip
+              label="Festival Act"
+              active={act.role === 'festival'}
+              onPress={() => updateAct(index, { role: 'festival' })}
+            />
+          </View>
+
+          {act.role === 'festival' && (
+            <View style={styles.scheduleRow}>
+              <Input
+                placeholder="Stage"
+                value={act.stage || ''}
+                onChangeText={(text) => updateAct(index, { stage: text })}
+                size="sm"
+                autoCapitalize="words"
+                containerStyle={styles.stageInput}
+              />
+              <Input
+                placeholder="HH:MM"
+                value={act.setTime || ''}
+                onChangeText={(text) => updateAct(index, { setTime: text })}
+                error={isValidSetTime(act.setTime) ? undefined : 'Use 24h HH:MM'}
+                size="sm"
+                keyboardType="numbers-and-punctuation"
+                containerStyle={styles.timeInput}
+              />
+            </View>
+          )}
+
+          <View style={styles.ratingRow}>
+            <Text style={styles.ratingLabel}>Their set:</Text>
+            {[1, 2, 3, 4, 5].map((star) => (
+              <TouchableOpacity
+                key={star}
+                onPress={() => updateAct(index, { rating: act.rating === star ? undefined : star })}
+                style={styles.starButton}
+              >
+                <StarIcon size="md" color={(act.rating || 0) >= star ? 'warning' : 'textTertiary'} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <Button
+        title={isFestival ? 'Add Act' : 'Add Opener'}
+        onPress={addAct}
+        variant="outline"
+        size="sm"
+        style={styles.addButton}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  actCard: {
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+    marginBottom: theme.spacing.sm,
+  },
+  actHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nameInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  stageInput: {
+    flex: 2,
+    marginBottom: 0,
+  },
+  timeInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  ratingLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginRight: theme.spacing.xs,
+  },
+  starButton: {
+    padding: 2,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+  },
+});
@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LineupAct } from '../types';
+import { StarIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface LineupViewProps {
+  lineup: LineupAct[];
+}
+
+const ROLE_LABELS: Record<LineupAct['role'], string> = {
+  headliner: 'Headliner',
+  support: 'Support',
+  festival: 'Festival',
+};
+
+export const LineupView: React.FC<LineupViewProps> = ({ lineup }) => (
+  <View>
+    {lineup.map((act) => (
+      <View key={act.artistRef} style={styles.actRow}>
+        <View style={styles.actDetails}>
+          <Text style={[styles.actName, act.role === 'headliner' && styles.headlinerName]}>
+            {act.artistName}
+          </Text>
+          <Text style={styles.actMeta}>
+            {[ROLE_LABELS[act.role], act.stage, act.setTime].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+        {act.rating ? (
+          <View style={styles.actRating}>
+            {[1, 2, 3, 4, 5].map((star) => (
+              <StarIcon
+                key={star}
+                size="xs"
+                color={star <= (act.rating || 0) ? 'warning' : 'textTertiary'}
+              />
+            ))}
+          </View>
+        ) : null}
+      </View>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  actRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  actDetails: {
+    flex: 1,
+  },
+  actName: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+  },
+  headlinerName: {
+    fontWeight: theme.typography.fontWeight.bold as any,
+  },
+  actMeta: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  actRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
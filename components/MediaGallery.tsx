@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Linking,
+  Alert,
+} from 'react-native';
+import { MediaAttachment } from '../types';
+import { IconButton, PlayIcon, XIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface MediaGalleryProps {
+  media: MediaAttachment[];
+  thumbnails?: Record<string, string>;
+  size?: number;
+  onRemove?: (attachment: MediaAttachment) => void;
+}
+
+export const MediaGallery: React.FC<MediaGalleryProps> = ({ media, thumbnails = {}, size = 96, onRemove }) => {
+  const [viewing, setViewing] = useState<MediaAttachment | null>(null);
+
+  const handlePress = (attachment: MediaAttachment) => {
+    if (attachment.type === 'video') {
+      // Hand videos to the system player rather than bundling one
+      Linking.openURL(attachment.url);
+      return;
+    }
+    setViewing(attachment);
+  };
+
+  const handleLongPress = (attachment: MediaAttachment) => {
+    if (!onRemove) return;
+
+    Alert.alert(
+      'Remove Attachment',
+      `Remove this ${attachment.type === 'video' ? 'video' : 'photo'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => onRemove(attachment) },
+      ]
+    );
+  };
+
+  return (
+    <>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {media.map((attachment) => {
+          // Thumbnails arrive a few seconds after upload; fall back to the original meanwhile
+          const previewUrl = thumbnails[attachment.id] || (attachment.type === 'image' ? attachment.url : undefined);
+
+          return (
+            <TouchableOpacity
+              key={attachment.id}
+              onPress={() => handlePress(attachment)}
+              onLongPress={() => handleLongPress(attachment)}
+              style={[styles.tile, { width: size, height: size }]}
+            >
+              {previewUrl ? (
+                <Image source={{ uri: previewUrl }} style={styles.tileImage} />
+              ) : (
+                <View style={[styles.tileImage, styles.videoPlaceholder]} />
+              )}
+              {attachment.type === 'video' && (
+                <View style={styles.playOverlay}>
+                  <PlayIcon size="lg" color="surface" />
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <Modal visible={!!viewing} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          {viewing && (
+            <Image source={{ uri: viewing.url }} style={styles.viewerImage} resizeMode="contain" />
+          )}
+          <IconButton
+            icon={<XIcon size="lg" color="surface" />}
+            onPress={() => setViewing(null)}
+            variant="ghost"
+            style={styles.closeButton}
+          />
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  strip: {
+    gap: theme.spacing.sm,
+  },
+  tile: {
+    borderRadius: theme.borderRadius.md,
+    overflow: 'hidden',
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  tileImage: {
+    width: '100%',
+    height: '100%',
+  },
+  videoPlaceholder: {
+    backgroundColor: theme.colors.text,
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.95)',
+    justifyContent: 'center',
+  },
+  viewerImage: {
+    width: '100%',
+    height: '80%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: theme.spacing.xxl,
+    right: theme.spacing.lg,
+  },
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { RatingStats } from '../types';
+import { StarIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface RatingSummaryProps {
+  stats?: RatingStats;
+}
+
+const STAR_VALUES = ['5', '4', '3', '2', '1'] as const;
+
+// Average rating, number of ratings and a bar per star value
+export const RatingSummary: React.FC<RatingSummaryProps> = ({ stats }) => {
+  if (!stats || stats.count === 0) {
+    return <Text style={styles.emptyText}>No ratings yet</Text>;
+  }
+
+  const largestBucket = Math.max(...STAR_VALUES.map((value) => stats.histogram[value] || 0), 1);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.averageColumn}>
+        <Text style={styles.average}>{stats.average.toFixed(1)}</Text>
+        <View style={styles.starsRow}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <StarIcon
+              key={star}
+              size="sm"
+              color={star <= Math.round(stats.average) ? 'warning' : 'textTertiary'}
+            />
+          ))}
+        </View>
+        <Text style={styles.count}>
+          {stats.count} {stats.count === 1 ? 'rating' : 'ratings'}
+        </Text>
+      </View>
+
+      <View style={styles.histogram}>
+        {STAR_VALUES.map((value) => {
+          const bucket = stats.histogram[value] || 0;
+          return (
+            <View key={value} style={styles.histogramRow}>
+              <Text style={styles.histogramLabel}>{value}</Text>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${(bucket / largestBucket) * 100}%` }]} />
+              </View>
+              <Text style={styles.histogramCount}>{bucket}</Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  averageColumn: {
+    alignItems: 'center',
+    marginRight: theme.spacing.lg,
+  },
+  average: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    marginVertical: theme.spacing.xs,
+  },
+  count: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  histogram: {
+    flex: 1,
+  },
+  histogramRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  histogramLabel: {
+    width: 16,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surfaceVariant,
+    overflow: 'hidden',
+    marginHorizontal: theme.spacing.sm,
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.warning,
+  },
+  histogramCount: {
+    minWidth: 24,
+    textAlign: 'right',
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+});
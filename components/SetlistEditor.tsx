@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { SetlistSong } from '../types';
+import { Button, Input, IconButton, Chip, MusicIcon, ChevronUpIcon, ChevronDownIcon, XIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface SetlistEditorProps {
+  setlist: SetlistSong[];
+  onChange: (setlist: SetlistSong[]) => void;
+}
+
+export const getSetLabel = (set: number): string => {
+  if (set === 0) return 'Main Set';
+  return set === 1 ? 'Encore' : `Encore ${set}`;
+};
+
+export const SetlistEditor: React.FC<SetlistEditorProps> = ({ setlist, onChange }) => {
+  const [newSongTitle, setNewSongTitle] = useState('');
+  const [currentSet, setCurrentSet] = useState(
+    setlist.length > 0 ? setlist[setlist.length - 1].set : 0
+  );
+
+  const updateSong = (index: number, changes: Partial<SetlistSong>) => {
+    onChange(setlist.map((song, i) => (i === index ? { ...song, ...changes } : song)));
+  };
+
+  const addSong = (isTape: boolean) => {
+    const title = newSongTitle.trim();
+    if (!title) return;
+
+    onChange([...setlist, { title, set: currentSet, isTape: isTape || undefined }]);
+    setNewSongTitle('');
+  };
+
+  const moveSong = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= setlist.length) return;
+
+    const reordered = [...setlist];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeSong = (index: number) => {
+    onChange(setlist.filter((_, i) => i !== index));
+  };
+
+  // Songs are numbered across the whole show; tape intros don't count
+  let songNumber = 0;
+
+  return (
+    <View style={styles.container}>
+      {setlist.map((song, index) => {
+        const showSetHeader = index === 0 || setlist[index - 1].set !== song.set;
+        if (!song.isTape) songNumber += 1;
+
+        return (
+          <View key={`${index}-${song.title}`}>
+            {showSetHeader && (
+              <Text style={styles.setHeader}>{getSetLabel(song.set)}</Text>
+            )}
+
+            <View style={styles.songRow}>
+              <Text style={styles.songNumber}>{song.isTape ? '▶' : `${songNumber}.`}</Text>
+              <View style={styles.songDetails}>
+                <Text style={[styles.songTitle, song.isTape && styles.tapeTitle]}>
+                  {song.title}
+                  {song.segueInto ? ' ->' : ''}
+                </Text>
+
+                <View style={styles.chipRow}>
+                  <Chip
+                    label="Cover"
+                    active={!!song.isCover}
+                    onPress={() => updateSong(index, { isCover: !song.isCover })}
+                  />
+                  <Chip
+                    label="Segue"
+                    active={!!song.segueInto}
+                    onPress={() => updateSong(index, { segueInto: !song.segueInto })}
+                  />
+                  <Chip
+                    label="Tape"
+                    active={!!song.isTape}
+                    onPress={() => updateSong(index, { isTape: !song.isTape })}
+                  />
+                </View>
+
+                {song.isCover && (
+                  <Input
+                    placeholder="Original artist"
+                    value={song.originalArtist || ''}
+                    onChangeText={(text) => updateSong(index, { originalArtist: text })}
+                    size="sm"
+                    autoCapitalize="words"
+                    containerStyle={styles.coverInput}
+                  />
+                )}
+              </View>
+
+              <View style={styles.songActions}>
+                <IconButton
+                  icon={<ChevronUpIcon size="sm" color="textSecondary" />}
+                  onPress={() => moveSong(index, -1)}
+                  disabled={index === 0}
+                  variant="ghost"
+                  size="sm"
+                />
+                <IconButton
+                  icon={<ChevronDownIcon size="sm" color="textSecondary" />}
+                  onPress={() => moveSong(index, 1)}
+                  disabled={index === setlist.length - 1}
+                  variant="ghost"
+                  size="sm"
+                />
+                <IconButton
+                  icon={<XIcon size="sm" color="error" />}
+                  onPress={() => removeSong(index)}
+                  variant="ghost"
+                  size="sm"
+                />
+              </View>
+            </View>
+          </View>
+        );
+      })}
+
+      <Text style={styles.addingTo}>Adding to: {getSetLabel(currentSet)}</Text>
+      <Input
+        placeholder="Song title"
+        value={newSongTitle}
+        onChangeText={setNewSongTitle}
+        onSubmitEditing={() => addSong(false)}
+        returnKeyType="done"
+        leftIcon={<MusicIcon size="md" color="textSecondary" />}
+        autoCapitalize="words"
+      />
+
+      <View style={styles.buttonRow}>
+        <Button
+          title="Add Song"
+          onPress={() => addSong(false)}
+          disabled={!newSongTitle.trim()}
+          variant="outline"
+          size="sm"
+        />
+        <Button
+          title="Add Tape"
+          onPress={() => addSong(true)}
+          disabled={!newSongTitle.trim()}
+          variant="ghost"
+          size="sm"
+        />
+        <Button
+          title={currentSet === 0 ? 'Start Encore' : 'Next Encore'}
+          onPress={() => setCurrentSet(currentSet + 1)}
+          variant="ghost"
+          size="sm"
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  setHeader: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: theme.typography.letterSpacing.wide,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  songRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  songNumber: {
+    width: 28,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+  songDetails: {
+    flex: 1,
+  },
+  songTitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  tapeTitle: {
+    fontStyle: 'italic',
+    color: theme.colors.textSecondary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.xs,
+  },
+  coverInput: {
+    marginTop: theme.spacing.sm,
+    marginBottom: 0,
+  },
+  songActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addingTo: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textTertiary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.xs,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+});
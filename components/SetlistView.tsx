@@ -0,0 +1,86 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { SetlistSong } from '../types';
+import { getSetLabel } from './SetlistEditor';
+import { theme } from '../types/theme';
+
+interface SetlistViewProps {
+  setlist: SetlistSong[];
+}
+
+export const SetlistView: React.FC<SetlistViewProps> = ({ setlist }) => {
+  // Songs are numbered across the whole show; tape intros don't count
+  let songNumber = 0;
+
+  return (
+    <View>
+      {setlist.map((song, index) => {
+        const showSetHeader = index === 0 || setlist[index - 1].set !== song.set;
+        if (!song.isTape) songNumber += 1;
+
+        return (
+          <View key={`${index}-${song.title}`}>
+            {showSetHeader && (
+              <Text style={styles.setHeader}>{getSetLabel(song.set)}</Text>
+            )}
+
+            <View style={styles.songRow}>
+              <Text style={styles.songNumber}>{song.isTape ? '▶' : `${songNumber}.`}</Text>
+              <View style={styles.songDetails}>
+                <Text style={[styles.songTitle, song.isTape && styles.tapeTitle]}>
+                  {song.title}
+                  {song.isTape ? ' (tape)' : ''}
+                  {song.segueInto ? ' ->' : ''}
+                </Text>
+                {song.isCover && (
+                  <Text style={styles.songMeta}>
+                    {song.originalArtist ? `${song.originalArtist} cover` : 'Cover'}
+                  </Text>
+                )}
+                {song.notes && <Text style={styles.songMeta}>{song.notes}</Text>}
+              </View>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  setHeader: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: theme.typography.letterSpacing.wide,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.xs,
+  },
+  songRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: theme.spacing.xs,
+  },
+  songNumber: {
+    width: 28,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+  songDetails: {
+    flex: 1,
+  },
+  songTitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+  },
+  tapeTitle: {
+    fontStyle: 'italic',
+    color: theme.colors.textSecondary,
+  },
+  songMeta: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textTertiary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { VenueDetails, VenueSearchResult } from '../types';
+import { debounce, searchVenuePlaces } from '../services/searchService';
+import { formatVenueLocation } from '../utils/venue';
+import { Input, MapPinIcon } from './ui';
+import { theme } from '../types/theme';
+
+interface VenuePickerProps {
+  venueName: string;
+  venueDetails?: VenueDetails;
+  onChange: (venueName: string, venueDetails?: VenueDetails) => void;
+  error?: string;
+}
+
+// Venue name input that suggests matching places, so new venues are created with real location details
+export const VenuePicker: React.FC<VenuePickerProps> = ({ venueName, venueDetails, onChange, error }) => {
+  const [suggestions, setSuggestions] = useState<VenueSearchResult[]>([]);
+
+  const debouncedSearch = useMemo(
+    () => debounce(async (query: string) => {
+      if (query.trim().length < 3) {
+        setSuggestions([]);
+        return;
+      }
+
+      try {
+        setSuggestions(await searchVenuePlaces(query.trim()));
+      } catch (searchError) {
+        console.error('Error searching venues:', searchError);
+        setSuggestions([]);
+      }
+    }, 400),
+    []
+  );
+
+  const handleChangeText = (text: string) => {
+    // Typing again means the picked place no longer describes what's in the box
+    onChange(text, undefined);
+    debouncedSearch(text);
+  };
+
+  const handleSelect = ({ name, ...details }: VenueSearchResult) => {
+    onChange(name, details);
+    setSuggestions([]);
+  };
+
+  const pickedLocation = venueDetails ? formatVenueLocation(venueDetails) : '';
+
+  return (
+    <View>
+      <Input
+        label="Venue Name"
+        placeholder="Where was the concert?"
+        value={venueName}
+        onChangeText={handleChangeText}
+        error={error}
+        helperText={pickedLocation || undefined}
+        leftIcon={<MapPinIcon size="md" color="textSecondary" />}
+        autoCapitalize="words"
+      />
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map((suggestion) => (
+            <TouchableOpacity
+              key={suggestion.placeId || suggestion.name}
+              style={styles.suggestionRow}
+              onPress={() => handleSelect(suggestion)}
+            >
+              <MapPinIcon size="sm" color="primary" />
+              <View style={styles.suggestionDetails}>
+                <Text style={styles.suggestionName}>{suggestion.name}</Text>
+                <Text style={styles.suggestionMeta}>
+                  {suggestion.address || formatVenueLocation(suggestion)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  suggestions: {
+    borderWidth: 1,
+    borderColor: theme.colors.outline,
+    borderRadius: theme.borderRadius.md,
+    marginTop: -theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  suggestionDetails: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  suggestionName: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  suggestionMeta: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+});
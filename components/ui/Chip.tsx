@@ -0,0 +1,51 @@
+import React from 'react';
+import {
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ViewStyle,
+} from 'react-native';
+import { theme } from '../../types/theme';
+
+interface ChipProps {
+  label: string;
+  active?: boolean;
+  onPress?: () => void;
+  style?: ViewStyle;
+}
+
+export const Chip: React.FC<ChipProps> = ({
+  label,
+  active = false,
+  onPress,
+  style,
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    disabled={!onPress}
+    style={[styles.chip, active && styles.chipActive, style]}
+  >
+    <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.outline,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: theme.colors.surface,
+  },
+});
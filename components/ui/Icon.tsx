@@ -93,7 +93,7 @@ export type IconName =
   | 'send';
 
 export type IconSize = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
-export type IconColor = 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info' | 'text' | 'textSecondary' | 'textTertiary';
+export type IconColor = 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info' | 'text' | 'textSecondary' | 'textTertiary' | 'surface';
 
 interface IconProps {
   name: IconName;
@@ -186,6 +186,8 @@ const getIconColor = (color: IconColor): string => {
       return theme.colors.textSecondary;
     case 'textTertiary':
       return theme.colors.textTertiary;
+    case 'surface':
+      return theme.colors.surface;
     case 'text':
     default:
       return theme.colors.text;
@@ -295,3 +297,19 @@ export const PlusIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
 export const SendIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
   <Icon name="send" {...props} />
 );
+
+export const EditIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
+  <Icon name="edit" {...props} />
+);
+
+export const TrashIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
+  <Icon name="trash" {...props} />
+);
+
+export const CameraIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
+  <Icon name="camera" {...props} />
+);
+
+export const PlayIcon: React.FC<Omit<IconProps, 'name'>> = (props) => (
+  <Icon name="play" {...props} />
+);
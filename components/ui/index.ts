@@ -2,6 +2,7 @@ export { Button } from './Button';
 export { Input } from './Input';
 export { Card } from './Card';
 export { IconButton } from './IconButton';
+export { Chip } from './Chip';
 export { Icon, HomeIcon, SearchIcon, MusicIcon, UserIcon, HeartIcon, StarIcon, MailIcon, LockIcon, BellIcon } from './Icon';
 export { MessageSquareIcon, ClockIcon, ChevronRightIcon, TrendingUpIcon, UsersIcon, ChevronUpIcon, ChevronDownIcon, XIcon } from './Icon';
-export { MapPinIcon, CalendarIcon, PlusIcon, SendIcon } from './Icon';
+export { MapPinIcon, CalendarIcon, PlusIcon, SendIcon, EditIcon, TrashIcon, CameraIcon, PlayIcon } from './Icon';
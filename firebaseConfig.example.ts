@@ -1,5 +1,6 @@
 import { initializeApp } from 'firebase/app';
 import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
 
@@ -48,4 +49,13 @@ try {
   throw error;
 }
 
-export { auth, db };
+// Initialize Storage for concert/review media, optionally against the local emulator
+// (set FIREBASE_STORAGE_EMULATOR_HOST, e.g. "localhost:9199")
+const storage = getStorage(app);
+const storageEmulatorHost = Constants.expoConfig?.extra?.storageEmulatorHost || process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  connectStorageEmulator(storage, host, Number(port) || 9199);
+}
+
+export { auth, db, storage };
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as admin from 'firebase-admin';
+import { createFakeTransport, isQuietTime, sendPushToUser, setPushTransport } from '../push';
+
+const preferences = (
+  quietHours: { enabled: boolean; startHour: number; endHour: number },
+  utcOffsetMinutes = 0
+) => ({ follows: true, likes: true, comments: true, friendShows: true, quietHours, utcOffsetMinutes });
+
+const at = (utcTime: string) => new Date(`2024-06-01T${utcTime}:00Z`);
+
+// Just enough of Firestore for sendPushToUser: one user document and its pushTokens
+const createFakeDb = (user: admin.firestore.DocumentData | undefined, tokens: string[]) => {
+  const deletedTokens: string[] = [];
+  const userRef = {
+    get: async () => ({ exists: user !== undefined, data: () => user }),
+    collection: () => ({
+      get: async () => ({ empty: tokens.length === 0, docs: tokens.map((id) => ({ id })) }),
+      doc: (id: string) => ({ delete: async () => { deletedTokens.push(id); } }),
+    }),
+  };
+
+  return { db: { doc: () => userRef } as unknown as admin.firestore.Firestore, deletedTokens };
+};
+
+test('quiet hours can wrap past midnight', () => {
+  const overnight = preferences({ enabled: true, startHour: 22, endHour: 8 });
+
+  assert.equal(isQuietTime(overnight, at('23:30')), true);
+  assert.equal(isQuietTime(overnight, at('07:59')), true);
+  assert.equal(isQuietTime(overnight, at('08:00')), false);
+  assert.equal(isQuietTime(overnight, at('12:00')), false);
+});
+
+test('quiet hours follow the user\'s UTC offset', () => {
+  const quietHours = { enabled: true, startHour: 22, endHour: 8 };
+
+  // UTC+2: 21:00Z is 23:00 local, 06:30Z is 08:30 local
+  assert.equal(isQuietTime(preferences(quietHours, 120), at('21:00')), true);
+  assert.equal(isQuietTime(preferences(quietHours, 120), at('06:30')), false);
+  // UTC-5: 02:00Z is 21:00 local the day before, 03:00Z is 22:00
+  assert.equal(isQuietTime(preferences(quietHours, -300), at('02:00')), false);
+  assert.equal(isQuietTime(preferences(quietHours, -300), at('03:00')), true);
+});
+
+test('quiet hours that are disabled or empty never apply', () => {
+  assert.equal(isQuietTime(preferences({ enabled: false, startHour: 0, endHour: 23 }), at('12:00')), false);
+  assert.equal(isQuietTime(preferences({ enabled: true, startHour: 9, endHour: 9 }), at('09:30')), false);
+  assert.equal(isQuietTime(preferences({ enabled: true, startHour: 9, endHour: 17 }), at('12:00')), true);
+  assert.equal(isQuietTime(preferences({ enabled: true, startHour: 9, endHour: 17 }), at('17:00')), false);
+});
+
+test('pushes go to every registered device, with defaults when no preferences are saved', async () => {
+  const fake = createFakeTransport();
+  setPushTransport(fake.transport);
+  const { db } = createFakeDb({ displayName: 'Ana' }, ['phone', 'tablet']);
+
+  const delivered = await sendPushToUser(db, 'users/ana', 'likes', {
+    title: 'Harmony Hub',
+    body: 'Ben liked your review',
+    data: { concertRef: 'concerts/c1' },
+  });
+
+  assert.equal(delivered, 2);
+  assert.deepEqual(fake.sent.map((message) => message.to), ['phone', 'tablet']);
+  assert.deepEqual(fake.sent[0].data, { type: 'likes', concertRef: 'concerts/c1' });
+});
+
+test('a notification type the user turned off is not pushed', async () => {
+  const fake = createFakeTransport();
+  setPushTransport(fake.transport);
+  const { db } = createFakeDb({ notificationPreferences: { comments: false } }, ['phone']);
+
+  assert.equal(await sendPushToUser(db, 'users/ana', 'comments', { title: 'Harmony Hub', body: 'New comment' }), 0);
+  assert.equal(await sendPushToUser(db, 'users/ana', 'follows', { title: 'Harmony Hub', body: 'New follower' }), 1);
+  assert.deepEqual(fake.sent.map((message) => message.body), ['New follower']);
+});
+
+test('nothing is pushed during quiet hours', async () => {
+  const fake = createFakeTransport();
+  setPushTransport(fake.transport);
+  // A two-hour window starting this hour, in UTC
+  const startHour = new Date().getUTCHours();
+  const { db } = createFakeDb({
+    notificationPreferences: { quietHours: { enabled: true, startHour, endHour: (startHour + 2) % 24 }, utcOffsetMinutes: 0 },
+  }, ['phone']);
+
+  assert.equal(await sendPushToUser(db, 'users/ana', 'follows', { title: 'Harmony Hub', body: 'New follower' }), 0);
+  assert.equal(fake.sent.length, 0);
+});
+
+test('tokens the push service reports as unregistered are removed', async () => {
+  const fake = createFakeTransport(['old-phone']);
+  setPushTransport(fake.transport);
+  const { db, deletedTokens } = createFakeDb({}, ['old-phone', 'new-phone']);
+
+  assert.equal(await sendPushToUser(db, 'users/ana', 'follows', { title: 'Harmony Hub', body: 'New follower' }), 1);
+  assert.deepEqual(deletedTokens, ['old-phone']);
+});
+
+test('users without devices or without a profile get nothing', async () => {
+  const fake = createFakeTransport();
+  setPushTransport(fake.transport);
+
+  assert.equal(await sendPushToUser(createFakeDb({}, []).db, 'users/ana', 'likes', { title: 'Harmony Hub', body: 'Hi' }), 0);
+  assert.equal(await sendPushToUser(createFakeDb(undefined, ['phone']).db, 'users/gone', 'likes', { title: 'Harmony Hub', body: 'Hi' }), 0);
+  assert.equal(fake.sent.length, 0);
+});
@@ -0,0 +1,115 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { deleteCollection, deleteReviewTree, removeConcert, removeReviewEntry } from './cleanup';
+
+// Deleting an account needs a sign-in this recent, so an unlocked phone isn't enough
+const RECENT_LOGIN_SECONDS = 5 * 60;
+
+// Remove everything stored about a user. Each step works from what is still there,
+// so a deletion that failed halfway can simply be requested again.
+export const deleteUserData = async (db: admin.firestore.Firestore, userId: string) => {
+  const userRef = db.collection('users').doc(userId);
+  const summary = { concerts: 0, reviews: 0, comments: 0, likes: 0, follows: 0 };
+
+  // Follow edges in both directions. Inbound follows are found from everyone's following lists
+  // rather than the followers mirror, which misses follows made before syncFollowers existed.
+  // Following documents only carry the followed user in their ID, so the scan can't be narrowed.
+  const [followingSnapshot, allFollowsSnapshot] = await Promise.all([
+    userRef.collection('following').get(),
+    db.collectionGroup('following').select().get(),
+  ]);
+  for (const followingDoc of followingSnapshot.docs) {
+    await db.collection('users').doc(followingDoc.id).collection('followers').doc(userId).delete();
+    await followingDoc.ref.delete();
+    summary.follows++;
+  }
+  for (const followDoc of allFollowsSnapshot.docs.filter((docSnap) => docSnap.id === userId)) {
+    await followDoc.ref.delete();
+    summary.follows++;
+  }
+  await deleteCollection(userRef.collection('followers'));
+
+  // Likes and comments on other people's reviews. Likes recorded before likedBy entries
+  // carried a userRef are found once backfillLikeUserRefs has run (see the README).
+  const likesSnapshot = await db.collectionGroup('likedBy').where('userRef', '==', userRef.path).get();
+  for (const likeDoc of likesSnapshot.docs) {
+    await removeReviewEntry(likeDoc.ref, 'likesCount');
+    summary.likes++;
+  }
+
+  const commentsSnapshot = await db.collectionGroup('comments').where('userRef', '==', userRef.path).get();
+  for (const commentDoc of commentsSnapshot.docs) {
+    await removeReviewEntry(commentDoc.ref, 'commentsCount');
+    summary.comments++;
+  }
+
+  // The user's own reviews, then their concerts (which takes any remaining reviews of them along)
+  const reviewsSnapshot = await db.collection('reviews').where('userRef', '==', userRef.path).get();
+  for (const reviewDoc of reviewsSnapshot.docs) {
+    await deleteReviewTree(reviewDoc);
+    summary.reviews++;
+  }
+
+  const concertsSnapshot = await db.collection('concerts').where('userRef', '==', userRef.path).get();
+  for (const concertDoc of concertsSnapshot.docs) {
+    summary.reviews += await removeConcert(concertDoc.ref, userRef);
+    summary.concerts++;
+  }
+
+  await deleteCollection(db.collection('upcomingShows').where('userRef', '==', userRef.path));
+  await deleteCollection(userRef.collection('achievements'));
+  await deleteCollection(userRef.collection('pushTokens'));
+  await deleteCollection(db.collection('compatibility').where('userIds', 'array-contains', userId));
+  await deleteCollection(db.collection('feedItems').where('recipientRef', '==', userRef.path));
+  await deleteCollection(db.collection('notifications').where('recipientRef', '==', userRef.path));
+
+  // Uploaded photos and videos, plus any data export still sitting in Storage
+  const bucket = admin.storage().bucket();
+  await bucket.deleteFiles({ prefix: `media/${userId}/` });
+  await bucket.deleteFiles({ prefix: `exports/${userId}/` });
+
+  await userRef.delete();
+
+  return summary;
+};
+
+// Callable function for self-service account deletion. The auth account is removed last,
+// so until everything else is gone the user can still sign in and retry.
+export const deleteAccount = functions
+  .runWith({ timeoutSeconds: 540, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { userId } = data;
+
+    if (!userId) {
+      throw new functions.https.HttpsError('invalid-argument', 'User ID is required');
+    }
+
+    if (userId !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Cannot delete other users');
+    }
+
+    const authTime = context.auth.token.auth_time;
+    if (!authTime || Date.now() / 1000 - authTime > RECENT_LOGIN_SECONDS) {
+      throw new functions.https.HttpsError('failed-precondition', 'Please sign in again before deleting your account');
+    }
+
+    try {
+      const deleted = await deleteUserData(admin.firestore(), userId);
+
+      try {
+        await admin.auth().deleteUser(userId);
+      } catch (error: any) {
+        // Already gone from a previous attempt
+        if (error.code !== 'auth/user-not-found') throw error;
+      }
+
+      return { success: true, deleted };
+    } catch (error) {
+      console.error('Error in deleteAccount:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to delete account. Please try again.');
+    }
+  });
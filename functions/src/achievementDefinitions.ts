@@ -0,0 +1,91 @@
+import { AchievementDefinition } from './achievements';
+
+// Every badge a user can earn. Adding one is a matter of adding an entry here: the triggers in
+// achievements.ts evaluate whatever rules are listed. IDs are stored on earned badges, so never
+// rename one; `icon` is an icon name from components/ui/Icon.tsx.
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'first-show',
+    title: 'Opening Act',
+    description: 'Log your first concert',
+    icon: 'music',
+    rule: { metric: 'shows', threshold: 1 },
+  },
+  {
+    id: 'shows-25',
+    title: 'Regular',
+    description: 'Log 25 concerts',
+    icon: 'music',
+    rule: { metric: 'shows', threshold: 25 },
+  },
+  {
+    id: 'shows-100',
+    title: 'Centurion',
+    description: 'Log 100 concerts',
+    icon: 'trending-up',
+    rule: { metric: 'shows', threshold: 100 },
+  },
+  {
+    id: 'artists-50',
+    title: 'Eclectic Ears',
+    description: 'See 50 different artists',
+    icon: 'users',
+    rule: { metric: 'artists', threshold: 50 },
+  },
+  {
+    id: 'home-venue',
+    title: 'Home Turf',
+    description: 'Go to 10 shows at one venue',
+    icon: 'map-pin',
+    rule: { metric: 'showsAtOneVenue', threshold: 10 },
+  },
+  {
+    id: 'superfan',
+    title: 'Superfan',
+    description: 'See the same artist 5 times',
+    icon: 'heart',
+    rule: { metric: 'showsOfOneArtist', threshold: 5 },
+  },
+  {
+    id: 'countries-5',
+    title: 'World Tour',
+    description: 'See shows in 5 countries',
+    icon: 'map-pin',
+    rule: { metric: 'countries', threshold: 5 },
+  },
+  {
+    id: 'cities-10',
+    title: 'Road Tripper',
+    description: 'See shows in 10 cities',
+    icon: 'map-pin',
+    rule: { metric: 'cities', threshold: 10 },
+  },
+  {
+    id: 'busy-week',
+    title: 'Tour Bus',
+    description: 'Go to 3 shows in one week',
+    icon: 'calendar',
+    rule: { metric: 'showsWithinDays', days: 7, threshold: 3 },
+  },
+  {
+    id: 'festivals-3',
+    title: 'Festival Circuit',
+    description: 'Go to 3 different festivals',
+    icon: 'star',
+    rule: { metric: 'festivals', threshold: 3 },
+  },
+  {
+    id: 'first-review',
+    title: 'Critic',
+    description: 'Write your first review',
+    icon: 'edit',
+    rule: { metric: 'reviews', threshold: 1 },
+  },
+  {
+    id: 'review-liked-10',
+    title: 'Crowd Favorite',
+    description: 'Get 10 likes on a single review',
+    icon: 'thumbs-up',
+    rule: { metric: 'likesOnOneReview', threshold: 10 },
+  },
+];
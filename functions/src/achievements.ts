@@ -0,0 +1,186 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { ACHIEVEMENT_DEFINITIONS } from './achievementDefinitions';
+
+// Badges earned from a user's concerts and reviews, stored in users/{uid}/achievements/{id}.
+// Definitions are plain data (achievementDefinitions.ts); this file only knows how to measure
+// each metric. Badges are never taken away, even if the concerts that earned them are deleted.
+
+type CountMetric =
+  | 'shows' // Concerts logged
+  | 'artists' // Different acts seen, support acts included
+  | 'venues'
+  | 'cities'
+  | 'countries'
+  | 'festivals' // Different festival names
+  | 'reviews' // Reviews written
+  | 'showsAtOneVenue' // Most shows at any single venue
+  | 'showsOfOneArtist' // Most shows by any single act
+  | 'likesOnOneReview'; // Most likes on any single review
+
+export type AchievementRule =
+  | { metric: CountMetric; threshold: number }
+  | { metric: 'showsWithinDays'; days: number; threshold: number }; // Most shows inside any `days`-day window
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rule: AchievementRule;
+}
+
+interface UserActivity {
+  concerts: admin.firestore.DocumentData[];
+  venues: Map<string, admin.firestore.DocumentData>;
+  reviews: admin.firestore.DocumentData[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const countDistinct = (values: (string | undefined)[]) =>
+  new Set(values.filter((value) => value && value !== 'Unknown').map((value) => value!.toLowerCase())).size;
+
+// Size of the largest group when values are bucketed by key
+const largestGroup = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return Math.max(0, ...counts.values());
+};
+
+const getArtistRefs = (concert: admin.firestore.DocumentData): string[] =>
+  concert.artistRefs || [concert.artistRef];
+
+// Most shows that fit inside any window of `days` days
+const mostShowsWithin = (concerts: admin.firestore.DocumentData[], days: number) => {
+  const times = concerts.map((concert) => concert.date.toMillis()).sort((a, b) => a - b);
+  let best = 0;
+  let start = 0;
+
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] >= days * DAY_MS) start++;
+    best = Math.max(best, end - start + 1);
+  }
+
+  return best;
+};
+
+export const measureRule = (rule: AchievementRule, activity: UserActivity): number => {
+  const { concerts, venues, reviews } = activity;
+  const concertVenues = concerts.map((concert) => venues.get(concert.venueRef));
+
+  switch (rule.metric) {
+    case 'shows':
+      return concerts.length;
+    case 'artists':
+      return new Set(concerts.flatMap(getArtistRefs)).size;
+    case 'venues':
+      return new Set(concerts.map((concert) => concert.venueRef)).size;
+    case 'cities':
+      return countDistinct(concertVenues.map((venue) =>
+        venue?.city ? `${venue.city}|${venue.countryCode || venue.country || ''}` : undefined));
+    case 'countries':
+      return countDistinct(concertVenues.map((venue) => venue?.countryCode || venue?.country));
+    case 'festivals':
+      return countDistinct(concerts.map((concert) => concert.festivalName));
+    case 'reviews':
+      return reviews.length;
+    case 'showsAtOneVenue':
+      return largestGroup(concerts.map((concert) => concert.venueRef));
+    case 'showsOfOneArtist':
+      return largestGroup(concerts.flatMap(getArtistRefs));
+    case 'likesOnOneReview':
+      return Math.max(0, ...reviews.map((review) => review.likesCount || 0));
+    case 'showsWithinDays':
+      return mostShowsWithin(concerts, rule.days);
+    default:
+      return 0;
+  }
+};
+
+const loadActivity = async (db: admin.firestore.Firestore, userPath: string): Promise<UserActivity> => {
+  const [concertsSnapshot, reviewsSnapshot] = await Promise.all([
+    db.collection('concerts').where('userRef', '==', userPath).get(),
+    db.collection('reviews').where('userRef', '==', userPath).get(),
+  ]);
+  const concerts = concertsSnapshot.docs.map((docSnap) => docSnap.data());
+
+  const venueRefs = Array.from(new Set(concerts.map((concert) => concert.venueRef).filter(Boolean)));
+  const venueDocs = venueRefs.length > 0 ? await db.getAll(...venueRefs.map((path) => db.doc(path))) : [];
+
+  return {
+    concerts,
+    venues: new Map(venueDocs.filter((docSnap) => docSnap.exists).map((docSnap) => [docSnap.ref.path, docSnap.data()!])),
+    reviews: reviewsSnapshot.docs.map((docSnap) => docSnap.data()),
+  };
+};
+
+// Award every badge the user now qualifies for and hasn't earned yet. New badges start
+// unannounced; the app shows a toast for them and then marks them announced.
+export const evaluateAchievements = async (db: admin.firestore.Firestore, userPath: string): Promise<string[]> => {
+  const userRef = db.doc(userPath);
+  const [userDoc, earnedSnapshot] = await Promise.all([
+    userRef.get(),
+    userRef.collection('achievements').get(),
+  ]);
+
+  // The account is being deleted
+  if (!userDoc.exists) return [];
+
+  const earned = new Set(earnedSnapshot.docs.map((docSnap) => docSnap.id));
+  const pending = ACHIEVEMENT_DEFINITIONS.filter((definition) => !earned.has(definition.id));
+  if (pending.length === 0) return [];
+
+  const activity = await loadActivity(db, userPath);
+  const awarded = pending.filter((definition) => measureRule(definition.rule, activity) >= definition.rule.threshold);
+
+  // create() fails if a concurrent run already awarded the badge, which is fine
+  await Promise.all(awarded.map((definition) =>
+    userRef.collection('achievements').doc(definition.id).create({
+      title: definition.title,
+      description: definition.description,
+      icon: definition.icon,
+      earnedAt: admin.firestore.FieldValue.serverTimestamp(),
+      announced: false,
+    }).catch((error) => {
+      if (error.code !== 6) throw error; // ALREADY_EXISTS
+    })
+  ));
+
+  return awarded.map((definition) => definition.id);
+};
+
+// Re-check badges when a concert is logged or a field that rules look at changes
+export const achievementsOnConcertWrite = functions.firestore
+  .document('concerts/{concertId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    // Removing a concert never earns anything
+    if (!after?.userRef) return null;
+
+    const unchanged = before
+      && before.date?.isEqual(after.date)
+      && before.venueRef === after.venueRef
+      && before.festivalName === after.festivalName
+      && JSON.stringify(getArtistRefs(before)) === JSON.stringify(getArtistRefs(after));
+    if (unchanged) return null;
+
+    await evaluateAchievements(admin.firestore(), after.userRef);
+    return null;
+  });
+
+// Re-check the author's badges when they post a review or it gains likes
+export const achievementsOnReviewWrite = functions.firestore
+  .document('reviews/{reviewId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (!after?.userRef) return null;
+    if (before && (after.likesCount || 0) <= (before.likesCount || 0)) return null;
+
+    await evaluateAchievements(admin.firestore(), after.userRef);
+    return null;
+  });
@@ -0,0 +1,11 @@
+import * as functions from 'firebase-functions';
+
+// Admin tooling rewrites other users' data, so it is limited to accounts with the admin custom claim
+export const assertAdmin = (context: functions.https.CallableContext) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  if (context.auth.token.admin !== true) {
+    throw new functions.https.HttpsError('permission-denied', 'Admin privileges required');
+  }
+};
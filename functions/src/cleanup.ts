@@ -0,0 +1,103 @@
+import * as admin from 'firebase-admin';
+import { deleteMediaFiles } from './media';
+
+// Shared teardown for deleteConcert and deleteAccount. Every helper re-reads what it removes,
+// so running one twice (or resuming after a crash) is safe.
+
+// Delete every document in a (sub)collection in batches
+export const deleteCollection = async (
+  collectionRef: admin.firestore.CollectionReference | admin.firestore.Query,
+  batchSize = 200
+): Promise<void> => {
+  const db = admin.firestore();
+  let snapshot = await collectionRef.limit(batchSize).get();
+
+  while (!snapshot.empty) {
+    const batch = db.batch();
+    snapshot.docs.forEach((docSnap) => batch.delete(docSnap.ref));
+    await batch.commit();
+
+    snapshot = await collectionRef.limit(batchSize).get();
+  }
+};
+
+// Remove a review along with the likes, comments and media underneath it
+export const deleteReviewTree = async (reviewDoc: admin.firestore.DocumentSnapshot): Promise<void> => {
+  await deleteCollection(reviewDoc.ref.collection('likedBy'));
+  await deleteCollection(reviewDoc.ref.collection('comments'));
+  await deleteMediaFiles(reviewDoc.get('userRef'), 'reviews', reviewDoc.id);
+  await reviewDoc.ref.delete();
+};
+
+// Remove a comment or like on a review and decrement that review's counter. Done in a
+// transaction that skips already-removed entries, so counts are never decremented twice.
+export const removeReviewEntry = async (
+  entryRef: admin.firestore.DocumentReference,
+  counterField: 'commentsCount' | 'likesCount'
+): Promise<void> => {
+  const reviewRef = entryRef.parent.parent!;
+
+  await admin.firestore().runTransaction(async (transaction) => {
+    const [entryDoc, reviewDoc] = await Promise.all([
+      transaction.get(entryRef),
+      transaction.get(reviewRef),
+    ]);
+
+    if (!entryDoc.exists) {
+      return;
+    }
+
+    transaction.delete(entryRef);
+    if (reviewDoc.exists) {
+      const current = reviewDoc.data()?.[counterField] || 0;
+      transaction.update(reviewRef, { [counterField]: Math.max(0, current - 1) });
+    }
+  });
+};
+
+// Remove a concert, every review of it and its media, then decrement the owner's and
+// the event's counters. Returns how many reviews were removed.
+export const removeConcert = async (
+  concertRef: admin.firestore.DocumentReference,
+  userRef: admin.firestore.DocumentReference
+): Promise<number> => {
+  const db = admin.firestore();
+  const concertDoc = await concertRef.get();
+  if (!concertDoc.exists) {
+    return 0;
+  }
+
+  const reviewsSnapshot = await db.collection('reviews')
+    .where('concertRef', '==', concertRef.path)
+    .get();
+
+  for (const reviewDoc of reviewsSnapshot.docs) {
+    await deleteReviewTree(reviewDoc);
+  }
+
+  await deleteMediaFiles(userRef.path, 'concerts', concertRef.id);
+
+  // Delete the concert and decrement the owner's counter atomically. The event's attendance
+  // follows from the delete (see syncEventAttendance).
+  await db.runTransaction(async (transaction) => {
+    const [currentConcertDoc, userDoc] = await Promise.all([
+      transaction.get(concertRef),
+      transaction.get(userRef),
+    ]);
+
+    // Another request already removed it, so the counter is already correct
+    if (!currentConcertDoc.exists) {
+      return;
+    }
+
+    transaction.delete(concertRef);
+
+    // The profile may already be gone when a whole account is being deleted
+    if (userDoc.exists) {
+      const currentCount = userDoc.data()?.loggedConcertsCount || 0;
+      transaction.set(userRef, { loggedConcertsCount: Math.max(0, currentCount - 1) }, { merge: true });
+    }
+  });
+
+  return reviewsSnapshot.size;
+};
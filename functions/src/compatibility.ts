@@ -0,0 +1,236 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Taste compatibility between two users, computed from both concert histories and cached in
+// compatibility/{pairId}. A cached result is reused until either user's loggedConcertsCount
+// changes or it is a day old (which also picks up re-rated concerts).
+
+const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Pearson correlation is meaningless on fewer common artists than this
+const MIN_CORRELATION_ARTISTS = 3;
+
+// How many shared artists/shows/venues are returned for display
+const MAX_SHARED_ITEMS = 10;
+
+interface SharedItem {
+  ref: string;
+  name: string;
+  count: number; // Shows the two users have between them
+}
+
+interface SharedShow {
+  eventRef: string;
+  name: string;
+  venueName: string;
+  date: string; // ISO
+}
+
+export interface TasteCompatibility {
+  score: number; // 0-100
+  sharedArtistsCount: number;
+  sharedShowsCount: number;
+  sharedVenuesCount: number;
+  sharedArtists: SharedItem[];
+  sharedShows: SharedShow[];
+  sharedVenues: SharedItem[];
+  ratingCorrelation: number | null; // -1..1 over common artists, null when too few
+  commonRatedArtists: number;
+  computedAt: string; // ISO
+}
+
+interface History {
+  artists: Map<string, { name: string; count: number; ratings: number[] }>;
+  venues: Map<string, { name: string; count: number }>;
+  shows: Map<string, SharedShow>;
+}
+
+const buildPairId = (userA: string, userB: string) => [userA, userB].sort().join('_');
+
+const isValidRating = (rating: unknown): rating is number =>
+  Number.isInteger(rating) && (rating as number) >= 1 && (rating as number) <= 5;
+
+// Summarise one user's concerts by artist, venue and shared event. Headliners carry the
+// concert rating; support acts only count as rated when the user rated them separately.
+const summarizeHistory = (concerts: admin.firestore.DocumentData[]): History => {
+  const history: History = { artists: new Map(), venues: new Map(), shows: new Map() };
+
+  concerts.forEach((concert) => {
+    const lineup: { artistRef: string; artistName?: string; rating?: number }[] = concert.lineup?.length
+      ? concert.lineup
+      : [{ artistRef: concert.artistRef, artistName: concert.artistName }];
+
+    lineup.forEach((act, index) => {
+      const artist = history.artists.get(act.artistRef) || { name: act.artistName || 'Unknown Artist', count: 0, ratings: [] };
+      artist.count++;
+      const rating = index === 0 ? concert.rating : act.rating;
+      if (isValidRating(rating)) artist.ratings.push(rating);
+      history.artists.set(act.artistRef, artist);
+    });
+
+    const venue = history.venues.get(concert.venueRef) || { name: concert.venueName || 'Unknown Venue', count: 0 };
+    venue.count++;
+    history.venues.set(concert.venueRef, venue);
+
+    if (concert.eventRef) {
+      history.shows.set(concert.eventRef, {
+        eventRef: concert.eventRef,
+        name: concert.festivalName || concert.artistName || 'Unknown Artist',
+        venueName: concert.venueName || 'Unknown Venue',
+        date: concert.date.toDate().toISOString(),
+      });
+    }
+  });
+
+  return history;
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Pearson correlation of paired values, or null if either side has no variance
+const pearson = (pairs: [number, number][]): number | null => {
+  if (pairs.length < MIN_CORRELATION_ARTISTS) return null;
+
+  const meanA = average(pairs.map(([a]) => a));
+  const meanB = average(pairs.map(([, b]) => b));
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  pairs.forEach(([a, b]) => {
+    covariance += (a - meanA) * (b - meanB);
+    varianceA += (a - meanA) ** 2;
+    varianceB += (b - meanB) ** 2;
+  });
+
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+const jaccard = (a: Map<string, unknown>, b: Map<string, unknown>) => {
+  const shared = Array.from(a.keys()).filter((key) => b.has(key)).length;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+const sharedCounts = <T extends { name: string; count: number }>(a: Map<string, T>, b: Map<string, T>): SharedItem[] =>
+  Array.from(a.entries())
+    .filter(([ref]) => b.has(ref))
+    .map(([ref, item]) => ({ ref, name: item.name, count: item.count + b.get(ref)!.count }))
+    .sort((x, y) => y.count - x.count || x.name.localeCompare(y.name));
+
+// Score out of 100: artist overlap counts for half, rating agreement for a quarter,
+// and venue overlap and shows attended together for the rest. Overlaps use Jaccard
+// similarity so someone with a huge history doesn't match everyone.
+export const computeCompatibility = (
+  concertsA: admin.firestore.DocumentData[],
+  concertsB: admin.firestore.DocumentData[]
+): TasteCompatibility => {
+  const a = summarizeHistory(concertsA);
+  const b = summarizeHistory(concertsB);
+
+  const sharedArtists = sharedCounts(a.artists, b.artists);
+  const sharedVenues = sharedCounts(a.venues, b.venues);
+  const sharedShows = Array.from(a.shows.values())
+    .filter((show) => b.shows.has(show.eventRef))
+    .sort((x, y) => y.date.localeCompare(x.date));
+
+  const ratedPairs = sharedArtists
+    .map(({ ref }) => [a.artists.get(ref)!.ratings, b.artists.get(ref)!.ratings])
+    .filter(([ratingsA, ratingsB]) => ratingsA.length > 0 && ratingsB.length > 0)
+    .map(([ratingsA, ratingsB]) => [average(ratingsA), average(ratingsB)] as [number, number]);
+  const ratingCorrelation = pearson(ratedPairs);
+
+  // Unknown agreement counts as neutral rather than as a mismatch
+  const agreement = ratingCorrelation === null ? 0.5 : (ratingCorrelation + 1) / 2;
+  const showsTogether = Math.min(sharedShows.length, 5) / 5;
+  const score = sharedArtists.length === 0 && sharedVenues.length === 0
+    ? 0
+    : Math.round(
+      50 * Math.sqrt(jaccard(a.artists, b.artists))
+      + 25 * agreement
+      + 15 * Math.sqrt(jaccard(a.venues, b.venues))
+      + 10 * showsTogether
+    );
+
+  return {
+    score: Math.min(100, score),
+    sharedArtistsCount: sharedArtists.length,
+    sharedShowsCount: sharedShows.length,
+    sharedVenuesCount: sharedVenues.length,
+    sharedArtists: sharedArtists.slice(0, MAX_SHARED_ITEMS),
+    sharedShows: sharedShows.slice(0, MAX_SHARED_ITEMS),
+    sharedVenues: sharedVenues.slice(0, MAX_SHARED_ITEMS),
+    ratingCorrelation: ratingCorrelation === null ? null : Math.round(ratingCorrelation * 100) / 100,
+    commonRatedArtists: ratedPairs.length,
+    computedAt: new Date().toISOString(),
+  };
+};
+
+// Callable returning how well the caller's concert history matches another user's
+export const getTasteCompatibility = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { otherUserId } = data;
+  const userId = context.auth.uid;
+
+  if (!otherUserId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Other user ID is required');
+  }
+  if (otherUserId === userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot compare a user with themselves');
+  }
+
+  const db = admin.firestore();
+  const cacheRef = db.collection('compatibility').doc(buildPairId(userId, otherUserId));
+
+  try {
+    const [userDoc, otherUserDoc, cacheDoc] = await db.getAll(
+      db.collection('users').doc(userId),
+      db.collection('users').doc(otherUserId),
+      cacheRef
+    );
+
+    if (!otherUserDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const sourceCounts = {
+      [userId]: userDoc.data()?.loggedConcertsCount || 0,
+      [otherUserId]: otherUserDoc.data()?.loggedConcertsCount || 0,
+    };
+
+    const cached = cacheDoc.data();
+    const isFresh = cached
+      && cached.sourceCounts?.[userId] === sourceCounts[userId]
+      && cached.sourceCounts?.[otherUserId] === sourceCounts[otherUserId]
+      && Date.now() - cached.updatedAt.toMillis() < CACHE_MAX_AGE_MS;
+    if (isFresh) {
+      return cached.result as TasteCompatibility;
+    }
+
+    const [concertsSnapshot, otherConcertsSnapshot] = await Promise.all([
+      db.collection('concerts').where('userRef', '==', `users/${userId}`).get(),
+      db.collection('concerts').where('userRef', '==', `users/${otherUserId}`).get(),
+    ]);
+    const result = computeCompatibility(
+      concertsSnapshot.docs.map((docSnap) => docSnap.data()),
+      otherConcertsSnapshot.docs.map((docSnap) => docSnap.data())
+    );
+
+    await cacheRef.set({
+      userIds: [userId, otherUserId].sort(),
+      sourceCounts,
+      result,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return result;
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error('Error in getTasteCompatibility:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to compare concert histories');
+  }
+});
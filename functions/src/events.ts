@@ -0,0 +1,85 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Attendance on shared events. Clients only create the event for a show nobody has logged yet
+// (with attendeesCount 0, see services/eventService.ts); counting attendees, adding the acts
+// each of them saw and retiring events nobody is left at all happen here, so no client can
+// change or delete an event on anyone else's behalf.
+
+// The calendar day is part of the event ID (see buildEventId in services/eventService.ts);
+// the concert's timestamp is UTC and can't give the attendee's local day back
+const getEventDay = (eventId: string) => eventId.match(/_(\d{4}-\d{2}-\d{2})_/)?.[1] || '';
+
+// Count a concert's owner as an attendee of its event
+const joinEvent = async (db: admin.firestore.Firestore, eventPath: string, concert: admin.firestore.DocumentData) => {
+  const eventRef = db.doc(eventPath);
+  const artistRefs: string[] = concert.artistRefs || [concert.artistRef];
+  const artistNames: string[] = concert.artistNames || [concert.artistName || 'Unknown Artist'];
+
+  await db.runTransaction(async (transaction) => {
+    const eventDoc = await transaction.get(eventRef);
+
+    if (eventDoc.exists) {
+      // Other attendees may have logged a different part of the bill
+      transaction.update(eventRef, {
+        artistRefs: admin.firestore.FieldValue.arrayUnion(...artistRefs),
+        artistNames: admin.firestore.FieldValue.arrayUnion(...artistNames),
+        attendeesCount: admin.firestore.FieldValue.increment(1),
+      });
+      return;
+    }
+
+    // The client creates the event with the concert, but the last attendee may have left
+    // (retiring it) in between
+    transaction.set(eventRef, {
+      headlinerRef: artistRefs[0],
+      artistRefs,
+      artistNames,
+      venueRef: concert.venueRef,
+      venueName: concert.venueName || '',
+      date: concert.date,
+      day: getEventDay(eventRef.id),
+      festivalName: concert.festivalName || '',
+      attendeesCount: 1,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+};
+
+// Take one attendee off an event, deleting it once nobody is left
+const leaveEvent = async (db: admin.firestore.Firestore, eventPath: string) => {
+  const eventRef = db.doc(eventPath);
+
+  await db.runTransaction(async (transaction) => {
+    const eventDoc = await transaction.get(eventRef);
+    // Already retired, or merged away
+    if (!eventDoc.exists) return;
+
+    const attendeesCount = eventDoc.data()?.attendeesCount || 0;
+    if (attendeesCount <= 1) {
+      transaction.delete(eventRef);
+    } else {
+      transaction.update(eventRef, { attendeesCount: attendeesCount - 1 });
+    }
+  });
+};
+
+// Keep attendance in step as concerts are logged, moved to another show or deleted
+export const syncEventAttendance = functions.firestore
+  .document('concerts/{concertId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const previousEvent: string | undefined = before?.eventRef || undefined;
+    const nextEvent: string | undefined = after?.eventRef || undefined;
+    if (previousEvent === nextEvent) return null;
+
+    const db = admin.firestore();
+    if (nextEvent) {
+      await joinEvent(db, nextEvent, after!);
+    }
+    if (previousEvent) {
+      await leaveEvent(db, previousEvent);
+    }
+    return null;
+  });
@@ -0,0 +1,188 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomUUID } from 'crypto';
+import { buildDownloadUrl } from './media';
+
+// Bump when the archive layout changes so older backups can still be recognised
+const EXPORT_VERSION = 1;
+
+// Same columns importConcerts reads (utils/concertImport.ts), so the CSV works as a backup
+const CONCERT_CSV_COLUMNS = ['artist', 'venue', 'city', 'date', 'rating', 'notes', 'festival', 'lineup', 'eventRef'];
+
+type Serialized = string | number | boolean | null | Serialized[] | { [key: string]: Serialized };
+
+// Firestore Timestamps become ISO strings so the archive is plain JSON
+const serialize = (value: any): Serialized => {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (value instanceof admin.firestore.DocumentReference) return value.path;
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serialize(entry)]));
+  }
+  return value ?? null;
+};
+
+const toRecord = (docSnap: admin.firestore.DocumentSnapshot) => ({
+  id: docSnap.id,
+  ...(serialize(docSnap.data()) as Record<string, Serialized>),
+});
+
+const escapeCsv = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Read documents by path in chunks, skipping any that have since been deleted
+const getAllByPath = async (db: admin.firestore.Firestore, paths: string[]) => {
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+  const snapshots: admin.firestore.DocumentSnapshot[] = [];
+
+  for (let i = 0; i < unique.length; i += 100) {
+    const refs = unique.slice(i, i + 100).map((path) => db.doc(path));
+    if (refs.length > 0) snapshots.push(...(await db.getAll(...refs)));
+  }
+
+  return new Map(snapshots.filter((snap) => snap.exists).map((snap) => [snap.ref.path, snap.data()!]));
+};
+
+// Assemble everything stored about a user. Only content the user authored is included;
+// other people's comments and likes on their reviews show up as counts.
+export const buildUserArchive = async (db: admin.firestore.Firestore, userId: string) => {
+  const userRef = db.collection('users').doc(userId);
+
+  const [
+    userDoc,
+    concertsSnapshot,
+    reviewsSnapshot,
+    commentsSnapshot,
+    likesSnapshot,
+    followingSnapshot,
+    followersSnapshot,
+    upcomingSnapshot,
+    achievementsSnapshot,
+  ] = await Promise.all([
+    userRef.get(),
+    db.collection('concerts').where('userRef', '==', userRef.path).get(),
+    db.collection('reviews').where('userRef', '==', userRef.path).get(),
+    db.collectionGroup('comments').where('userRef', '==', userRef.path).get(),
+    // Likes older than likedBy's userRef are included once backfillLikeUserRefs has run
+    db.collectionGroup('likedBy').where('userRef', '==', userRef.path).get(),
+    userRef.collection('following').get(),
+    userRef.collection('followers').get(),
+    db.collection('upcomingShows').where('userRef', '==', userRef.path).get(),
+    userRef.collection('achievements').get(),
+  ]);
+
+  // Attach venue cities and the show's local calendar day, which the stored UTC timestamp can't give
+  const concertDocs = concertsSnapshot.docs.sort(
+    (a, b) => a.data().date.toMillis() - b.data().date.toMillis()
+  );
+  const [venues, events] = await Promise.all([
+    getAllByPath(db, concertDocs.map((docSnap) => docSnap.data().venueRef)),
+    getAllByPath(db, concertDocs.map((docSnap) => docSnap.data().eventRef)),
+  ]);
+
+  const concerts = concertDocs.map((docSnap) => {
+    const data = docSnap.data();
+    const venue = venues.get(data.venueRef);
+    return {
+      ...toRecord(docSnap),
+      city: venue?.city || venue?.state || '',
+      day: events.get(data.eventRef)?.day || data.date.toDate().toISOString().slice(0, 10),
+    };
+  });
+
+  const archive = {
+    exportVersion: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: userDoc.exists ? toRecord(userDoc) : { id: userId },
+    concerts,
+    reviews: reviewsSnapshot.docs.map(toRecord),
+    comments: commentsSnapshot.docs.map((docSnap) => ({
+      ...toRecord(docSnap),
+      reviewId: docSnap.ref.parent.parent!.id,
+    })),
+    likes: likesSnapshot.docs.map((docSnap) => ({
+      reviewId: docSnap.ref.parent.parent!.id,
+      likedAt: serialize(docSnap.data().likedAt),
+    })),
+    following: followingSnapshot.docs.map(toRecord),
+    followers: followersSnapshot.docs.map(toRecord),
+    upcomingShows: upcomingSnapshot.docs.map(toRecord),
+    achievements: achievementsSnapshot.docs.map(toRecord),
+  };
+
+  const csvRows = concerts.map((concert: any) => [
+    concert.artistName,
+    concert.venueName,
+    concert.city,
+    concert.day,
+    concert.rating,
+    concert.notes,
+    concert.festivalName,
+    (concert.artistNames || []).join('; '),
+    concert.eventRef,
+  ].map(escapeCsv).join(','));
+
+  return {
+    archive,
+    concertsCsv: [CONCERT_CSV_COLUMNS.join(','), ...csvRows].join('\n'),
+  };
+};
+
+// Callable that writes the user's archive to Storage and returns download links.
+// Each export replaces the previous one, so there is only ever one copy to clean up.
+export const exportUserData = functions
+  .runWith({ timeoutSeconds: 300, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { userId } = data;
+
+    if (!userId) {
+      throw new functions.https.HttpsError('invalid-argument', 'User ID is required');
+    }
+
+    if (userId !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Cannot export data for other users');
+    }
+
+    try {
+      const { archive, concertsCsv } = await buildUserArchive(admin.firestore(), userId);
+      const bucket = admin.storage().bucket();
+
+      const upload = async (fileName: string, contents: string, contentType: string) => {
+        const path = `exports/${userId}/${fileName}`;
+        const token = randomUUID();
+        await bucket.file(path).save(contents, {
+          metadata: {
+            contentType,
+            contentDisposition: `attachment; filename="${fileName}"`,
+            metadata: { firebaseStorageDownloadTokens: token },
+          },
+        });
+        return buildDownloadUrl(bucket.name, path, token);
+      };
+
+      const [jsonUrl, csvUrl] = await Promise.all([
+        upload('harmonyhub-export.json', JSON.stringify(archive, null, 2), 'application/json'),
+        upload('harmonyhub-concerts.csv', concertsCsv, 'text/csv'),
+      ]);
+
+      return {
+        jsonUrl,
+        csvUrl,
+        exportedAt: archive.exportedAt,
+        counts: {
+          concerts: archive.concerts.length,
+          reviews: archive.reviews.length,
+          comments: archive.comments.length,
+        },
+      };
+    } catch (error) {
+      console.error('Error in exportUserData:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to export data');
+    }
+  });
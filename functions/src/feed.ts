@@ -0,0 +1,245 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { deleteCollection } from './cleanup';
+import { assertAdmin } from './auth';
+
+// Per-user activity feeds. Each concert or review is copied into feedItems once per follower
+// of its author, so reading a feed is a single query on recipientRef no matter how many people
+// the reader follows. Show names are copied from the concert and refreshed when the concert is
+// edited; merging artists or venues leaves a concert's names as logged, so its feed entries
+// keep them too. Display names are not refreshed.
+
+// How many of someone's latest concerts and reviews land in your feed when you follow them
+const FOLLOW_BACKFILL_COUNT = 10;
+
+type FeedItemType = 'concert_logged' | 'review_posted';
+
+interface FeedEntry {
+  type: FeedItemType;
+  actorRef: string;
+  sourceRef: string; // The concert or review this entry was made from
+  concertRef: string;
+  concertName: string;
+  artistName: string;
+  venueName: string;
+  reviewRef?: string;
+  createdAt: admin.firestore.Timestamp;
+}
+
+// Stable per recipient and source, so retried triggers and follow backfills overwrite
+// rather than duplicate
+const buildFeedItemId = (recipientId: string, sourceRef: string) =>
+  `${recipientId}_${sourceRef.replace('/', '_')}`;
+
+// The show names an entry copies from its concert
+const buildShowNames = (concert: admin.firestore.DocumentData | undefined) => {
+  const artistName = concert?.artistName || 'Unknown Artist';
+  const venueName = concert?.venueName || 'Unknown Venue';
+
+  return {
+    concertName: `${concert?.festivalName || artistName} at ${venueName}`,
+    artistName,
+    venueName,
+  };
+};
+
+const buildConcertEntry = (concertRef: string, concert: admin.firestore.DocumentData): FeedEntry => ({
+  type: 'concert_logged',
+  actorRef: concert.userRef,
+  sourceRef: concertRef,
+  concertRef,
+  ...buildShowNames(concert),
+  createdAt: concert.createdAt,
+});
+
+const buildReviewEntry = async (
+  db: admin.firestore.Firestore,
+  reviewRef: string,
+  review: admin.firestore.DocumentData
+): Promise<FeedEntry> => {
+  const concertDoc = await db.doc(review.concertRef).get();
+
+  return {
+    type: 'review_posted',
+    actorRef: review.userRef,
+    sourceRef: reviewRef,
+    concertRef: review.concertRef,
+    ...buildShowNames(concertDoc.data()),
+    reviewRef,
+    createdAt: review.createdAt,
+  };
+};
+
+const getDisplayName = async (db: admin.firestore.Firestore, userPath: string) => {
+  const userDoc = await db.doc(userPath).get();
+  return userDoc.data()?.displayName || 'Unknown User';
+};
+
+// Write entries into the given recipients' feeds
+const writeFeedItems = async (
+  db: admin.firestore.Firestore,
+  recipientIds: string[],
+  entries: FeedEntry[]
+): Promise<void> => {
+  if (recipientIds.length === 0 || entries.length === 0) return;
+
+  const displayNames = new Map<string, string>();
+  for (const entry of entries) {
+    if (!displayNames.has(entry.actorRef)) {
+      displayNames.set(entry.actorRef, await getDisplayName(db, entry.actorRef));
+    }
+  }
+
+  const writer = db.bulkWriter();
+  recipientIds.forEach((recipientId) => {
+    entries.forEach((entry) => {
+      writer.set(db.collection('feedItems').doc(buildFeedItemId(recipientId, entry.sourceRef)), {
+        ...entry,
+        recipientRef: `users/${recipientId}`,
+        actorDisplayName: displayNames.get(entry.actorRef)!,
+      });
+    });
+  });
+  await writer.close();
+};
+
+const getFollowerIds = async (db: admin.firestore.Firestore, userPath: string): Promise<string[]> => {
+  const followersSnapshot = await db.doc(userPath).collection('followers').get();
+  return followersSnapshot.docs.map((docSnap) => docSnap.id);
+};
+
+// Remove every feed entry made from a concert or review
+const removeFeedItems = (db: admin.firestore.Firestore, sourceRef: string) =>
+  deleteCollection(db.collection('feedItems').where('sourceRef', '==', sourceRef));
+
+// Fan a newly logged concert out to the author's followers
+export const fanOutConcert = functions.firestore
+  .document('concerts/{concertId}')
+  .onCreate(async (snapshot) => {
+    const concert = snapshot.data();
+    if (!concert.userRef) return null;
+
+    const db = admin.firestore();
+    const followerIds = await getFollowerIds(db, concert.userRef);
+    await writeFeedItems(db, followerIds, [buildConcertEntry(snapshot.ref.path, concert)]);
+    return null;
+  });
+
+// Fan a new review out to the author's followers
+export const fanOutReview = functions.firestore
+  .document('reviews/{reviewId}')
+  .onCreate(async (snapshot) => {
+    const review = snapshot.data();
+    if (!review.userRef || !review.concertRef) return null;
+
+    const db = admin.firestore();
+    const followerIds = await getFollowerIds(db, review.userRef);
+    if (followerIds.length === 0) return null;
+
+    await writeFeedItems(db, followerIds, [await buildReviewEntry(db, snapshot.ref.path, review)]);
+    return null;
+  });
+
+// Deleted concerts and reviews disappear from every feed they were fanned out to
+export const removeConcertFeedItems = functions.firestore
+  .document('concerts/{concertId}')
+  .onDelete(async (snapshot) => {
+    await removeFeedItems(admin.firestore(), snapshot.ref.path);
+    return null;
+  });
+
+export const removeReviewFeedItems = functions.firestore
+  .document('reviews/{reviewId}')
+  .onDelete(async (snapshot) => {
+    await removeFeedItems(admin.firestore(), snapshot.ref.path);
+    return null;
+  });
+
+// Renaming the artist, venue or festival of a concert renames it in every feed entry made from
+// the concert or its reviews
+export const refreshConcertFeedItems = functions.firestore
+  .document('concerts/{concertId}')
+  .onUpdate(async (change) => {
+    const before = buildShowNames(change.before.data());
+    const after = buildShowNames(change.after.data());
+    if (JSON.stringify(before) === JSON.stringify(after)) return null;
+
+    const db = admin.firestore();
+    const feedItemsSnapshot = await db.collection('feedItems')
+      .where('concertRef', '==', change.after.ref.path)
+      .get();
+
+    const writer = db.bulkWriter();
+    feedItemsSnapshot.docs.forEach((docSnap) => writer.update(docSnap.ref, after));
+    await writer.close();
+    return null;
+  });
+
+// Copy a followed user's latest concerts and reviews into a follower's feed
+const backfillFeed = async (db: admin.firestore.Firestore, userId: string, followedUserId: string) => {
+  const followedPath = `users/${followedUserId}`;
+  const [concertsSnapshot, reviewsSnapshot] = await Promise.all([
+    db.collection('concerts').where('userRef', '==', followedPath)
+      .orderBy('createdAt', 'desc').limit(FOLLOW_BACKFILL_COUNT).get(),
+    db.collection('reviews').where('userRef', '==', followedPath)
+      .orderBy('createdAt', 'desc').limit(FOLLOW_BACKFILL_COUNT).get(),
+  ]);
+
+  const entries = [
+    ...concertsSnapshot.docs.map((docSnap) => buildConcertEntry(docSnap.ref.path, docSnap.data())),
+    ...await Promise.all(reviewsSnapshot.docs
+      .filter((docSnap) => docSnap.data().concertRef)
+      .map((docSnap) => buildReviewEntry(db, docSnap.ref.path, docSnap.data()))),
+  ];
+  await writeFeedItems(db, [userId], entries);
+};
+
+// Following someone backfills their latest activity so the feed isn't empty until they
+// next log a show; unfollowing clears everything of theirs from the feed
+export const syncFeedOnFollow = functions.firestore
+  .document('users/{userId}/following/{followedUserId}')
+  .onWrite(async (change, context) => {
+    const { userId, followedUserId } = context.params;
+    const db = admin.firestore();
+
+    if (!change.after.exists) {
+      await deleteCollection(db.collection('feedItems')
+        .where('recipientRef', '==', `users/${userId}`)
+        .where('actorRef', '==', `users/${followedUserId}`));
+      return null;
+    }
+
+    // Only a new follow needs a backfill
+    if (change.before.exists) return null;
+
+    await backfillFeed(db, userId, followedUserId);
+    return null;
+  });
+
+// Admin callable that fills every feed from existing follows, for follows made before
+// feeds were fanned out. It also rebuilds each followers mirror (see syncFollowers), which
+// getFollowerIds, account deletion and data export read, for follows made before the mirror
+// existed. Safe to re-run: entries are overwritten, not duplicated.
+export const backfillFeeds = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .https.onCall(async (data, context) => {
+    assertAdmin(context);
+
+    try {
+      const db = admin.firestore();
+      const followsSnapshot = await db.collectionGroup('following').get();
+
+      for (const followDoc of followsSnapshot.docs) {
+        const followerId = followDoc.ref.parent.parent!.id;
+        await db.collection('users').doc(followDoc.id).collection('followers').doc(followerId).set({
+          followedAt: followDoc.data().followedAt || admin.firestore.FieldValue.serverTimestamp(),
+        });
+        await backfillFeed(db, followerId, followDoc.id);
+      }
+
+      return { success: true, follows: followsSnapshot.size };
+    } catch (error) {
+      console.error('Error in backfillFeeds:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to backfill feeds');
+    }
+  });
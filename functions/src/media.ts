@@ -0,0 +1,98 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomUUID } from 'crypto';
+import * as sharp from 'sharp';
+
+const THUMBNAIL_SIZE = 400;
+
+// media/{uid}/{concerts|reviews}/{ownerId}/{attachmentId}; thumbnails live one level deeper in thumbs/
+const MEDIA_PATH_PATTERN = /^media\/([^/]+)\/(concerts|reviews)\/([^/]+)\/([^/]+)$/;
+
+const parseMediaPath = (path: string) => {
+  const match = path.match(MEDIA_PATH_PATTERN);
+  if (!match) return null;
+
+  const [, userId, ownerCollection, ownerId, attachmentId] = match;
+  return {
+    userId,
+    ownerCollection,
+    ownerId,
+    attachmentId,
+    thumbnailPath: `media/${userId}/${ownerCollection}/${ownerId}/thumbs/${attachmentId}.jpg`,
+  };
+};
+
+// Same URL format getDownloadURL produces on the client, pointed at the emulator when running locally
+export const buildDownloadUrl = (bucket: string, path: string, token: string) => {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const host = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com';
+  return `${host}/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+};
+
+// Storage trigger that writes a square JPEG thumbnail for every uploaded image and records
+// its URL on the concert/review. Videos keep showing a placeholder in the gallery.
+export const generateMediaThumbnail = functions.storage.object().onFinalize(async (object) => {
+  const media = object.name ? parseMediaPath(object.name) : null;
+  if (!media || !object.contentType?.startsWith('image/')) {
+    return null;
+  }
+
+  const bucket = admin.storage().bucket(object.bucket);
+  const [original] = await bucket.file(object.name!).download();
+  const thumbnail = await sharp(original)
+    .rotate() // Respect EXIF orientation from phone cameras
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+
+  const token = randomUUID();
+  await bucket.file(media.thumbnailPath).save(thumbnail, {
+    metadata: {
+      contentType: 'image/jpeg',
+      metadata: { firebaseStorageDownloadTokens: token },
+    },
+  });
+
+  // A separate map field, so it doesn't matter whether the client has attached the upload yet
+  try {
+    await admin.firestore().collection(media.ownerCollection).doc(media.ownerId).update({
+      [`mediaThumbnails.${media.attachmentId}`]: buildDownloadUrl(object.bucket, media.thumbnailPath, token),
+    });
+  } catch (error: any) {
+    // The concert/review was deleted while we were working; don't leave an orphaned thumbnail
+    if (error.code === 5) {
+      await bucket.file(media.thumbnailPath).delete({ ignoreNotFound: true });
+      return null;
+    }
+    throw error;
+  }
+
+  return null;
+});
+
+// Storage trigger that removes a thumbnail once its original is deleted
+export const cleanupMediaThumbnail = functions.storage.object().onDelete(async (object) => {
+  const media = object.name ? parseMediaPath(object.name) : null;
+  if (!media) {
+    return null;
+  }
+
+  await admin.storage().bucket(object.bucket).file(media.thumbnailPath).delete({ ignoreNotFound: true });
+
+  try {
+    await admin.firestore().collection(media.ownerCollection).doc(media.ownerId).update({
+      [`mediaThumbnails.${media.attachmentId}`]: admin.firestore.FieldValue.delete(),
+    });
+  } catch (error: any) {
+    // Owner already deleted, nothing left to clean up
+    if (error.code !== 5) throw error;
+  }
+
+  return null;
+});
+
+// Delete every uploaded file (and thumbnail) belonging to a concert or review
+export const deleteMediaFiles = async (userRef: string, ownerCollection: 'concerts' | 'reviews', ownerId: string) => {
+  const userId = userRef.split('/').pop();
+  await admin.storage().bucket().deleteFiles({ prefix: `media/${userId}/${ownerCollection}/${ownerId}/` });
+};
@@ -0,0 +1,264 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { normalizeName } from './normalize';
+import { combineStats } from './ratings';
+import { assertAdmin } from './auth';
+
+type MergeKind = 'artists' | 'venues';
+
+// Same scheme as buildEventId in services/eventService.ts
+const buildEventId = (event: admin.firestore.DocumentData): string => {
+  const venueId = event.venueRef.split('/').pop();
+  const headlinerId = event.headlinerRef.split('/').pop();
+
+  return event.festivalName ? `${venueId}_${event.day}_festival` : `${venueId}_${event.day}_${headlinerId}`;
+};
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+// Events are keyed by venue and headliner, so rewriting their refs can change their ID.
+// Events that end up with the same ID are the same show and get folded together,
+// along with any event the survivor already had for it.
+const rekeyEvents = async (
+  db: admin.firestore.Firestore,
+  writer: admin.firestore.BulkWriter,
+  events: { ref: admin.firestore.DocumentReference; data: admin.firestore.DocumentData }[]
+) => {
+  const sourcePaths = new Set(events.map((event) => event.ref.path));
+  const targets = new Map<string, admin.firestore.DocumentData[]>();
+  events.forEach((event) => {
+    const targetId = buildEventId(event.data);
+    targets.set(targetId, [...(targets.get(targetId) || []), event.data]);
+  });
+
+  for (const [targetId, sources] of targets) {
+    const targetRef = db.collection('events').doc(targetId);
+    // Ratings from concerts that get rewritten below are re-added by aggregateConcertRatings,
+    // so only the stats of the event already living at this ID carry over
+    let keptStats = events.find((event) => event.ref.path === targetRef.path)?.data.ratingStats;
+    if (!sourcePaths.has(targetRef.path)) {
+      const targetDoc = await targetRef.get();
+      if (targetDoc.exists) {
+        sources.push(targetDoc.data()!);
+        keptStats = targetDoc.data()!.ratingStats;
+      }
+    }
+
+    // Attendance moves with the concerts rewritten below (see syncEventAttendance), so the
+    // count already on the target is kept rather than overwritten
+    const { attendeesCount, ...eventFields } = sources[0];
+    writer.set(targetRef, {
+      ...eventFields,
+      artistRefs: unique(sources.flatMap((event) => event.artistRefs || [])),
+      artistNames: unique(sources.flatMap((event) => event.artistNames || [])),
+      ratingStats: combineStats([keptStats]),
+    }, { merge: true });
+  }
+
+  for (const event of events) {
+    const targetPath = `events/${buildEventId(event.data)}`;
+    if (targetPath === event.ref.path) continue;
+
+    const [concertsSnapshot, reviewsSnapshot] = await Promise.all([
+      db.collection('concerts').where('eventRef', '==', event.ref.path).get(),
+      db.collection('reviews').where('eventRef', '==', event.ref.path).get(),
+    ]);
+    concertsSnapshot.docs.forEach((docSnap) => writer.update(docSnap.ref, { eventRef: targetPath }));
+    reviewsSnapshot.docs.forEach((docSnap) => writer.update(docSnap.ref, { eventRef: targetPath }));
+
+    // Another source may have been rekeyed onto this ID, in which case it was just rewritten
+    if (!targets.has(event.ref.id)) {
+      writer.delete(event.ref);
+    }
+  }
+};
+
+// Fold duplicate artist/venue documents into the survivor and rewrite every reference to them
+const mergeInto = async (kind: MergeKind, survivorId: string, duplicateIds: string[]) => {
+  const db = admin.firestore();
+  const survivorRef = db.collection(kind).doc(survivorId);
+  const survivorDoc = await survivorRef.get();
+  if (!survivorDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Surviving document not found');
+  }
+
+  const duplicateDocs = (await Promise.all(
+    duplicateIds.map((id) => db.collection(kind).doc(id).get())
+  )).filter((docSnap) => docSnap.exists);
+
+  // Already merged by an earlier call
+  if (duplicateDocs.length === 0) {
+    return { merged: 0 };
+  }
+
+  const survivorPath = survivorRef.path;
+  const duplicatePaths = new Set(duplicateDocs.map((docSnap) => docSnap.ref.path));
+  const writer = db.bulkWriter();
+
+  // Collect everything that references a duplicate first, so a document that points at several
+  // duplicates is only rewritten once here. Concerts and reviews on an event that gets rekeyed
+  // are written again by rekeyEvents to point at the new event ID.
+  const concertDocs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  const reviewDocs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  const eventDocs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  const collect = (target: Map<string, admin.firestore.QueryDocumentSnapshot>, snapshot: admin.firestore.QuerySnapshot) =>
+    snapshot.docs.forEach((docSnap) => target.set(docSnap.id, docSnap));
+
+  for (const duplicatePath of duplicatePaths) {
+    if (kind === 'artists') {
+      collect(concertDocs, await db.collection('concerts').where('artistRef', '==', duplicatePath).get());
+      collect(concertDocs, await db.collection('concerts').where('artistRefs', 'array-contains', duplicatePath).get());
+      collect(reviewDocs, await db.collection('reviews').where('artistRefs', 'array-contains', duplicatePath).get());
+      collect(eventDocs, await db.collection('events').where('artistRefs', 'array-contains', duplicatePath).get());
+    } else {
+      collect(concertDocs, await db.collection('concerts').where('venueRef', '==', duplicatePath).get());
+      collect(reviewDocs, await db.collection('reviews').where('venueRef', '==', duplicatePath).get());
+      collect(eventDocs, await db.collection('events').where('venueRef', '==', duplicatePath).get());
+    }
+  }
+
+  const replaceRef = (ref: string) => (duplicatePaths.has(ref) ? survivorPath : ref);
+  const replaceRefs = (refs: string[] | undefined) => unique((refs || []).map(replaceRef));
+
+  // Concerts: the headliner/venue ref plus the denormalized lineup
+  concertDocs.forEach((concertDoc) => {
+    const concert = concertDoc.data();
+    const updates: admin.firestore.UpdateData<admin.firestore.DocumentData> = {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (kind === 'artists') {
+      updates.artistRef = replaceRef(concert.artistRef);
+      updates.artistRefs = concert.artistRefs ? replaceRefs(concert.artistRefs) : [updates.artistRef];
+      if (concert.lineup) {
+        // An act can only appear once per bill, so merged duplicates collapse into one entry
+        updates.lineup = concert.lineup
+          .map((act: any) => ({ ...act, artistRef: replaceRef(act.artistRef) }))
+          .filter((act: any, index: number, acts: any[]) =>
+            acts.findIndex((other) => other.artistRef === act.artistRef) === index);
+      }
+    } else {
+      updates.venueRef = survivorPath;
+    }
+
+    writer.update(concertDoc.ref, updates);
+  });
+
+  // Reviews carry copies of the concert's artist and venue refs
+  reviewDocs.forEach((reviewDoc) => {
+    writer.update(reviewDoc.ref, kind === 'artists'
+      ? { artistRefs: replaceRefs(reviewDoc.data().artistRefs) }
+      : { venueRef: survivorPath });
+  });
+
+  await rekeyEvents(db, writer, Array.from(eventDocs.values()).map((eventDoc) => {
+    const event = eventDoc.data();
+    return {
+      ref: eventDoc.ref,
+      data: kind === 'artists'
+        ? { ...event, headlinerRef: replaceRef(event.headlinerRef), artistRefs: replaceRefs(event.artistRefs) }
+        : { ...event, venueRef: survivorPath },
+    };
+  }));
+
+  // Keep every merged spelling so future logs resolve to the survivor
+  const survivor = survivorDoc.data()!;
+  const aliases = new Set<string>(survivor.aliases || []);
+  duplicateDocs.forEach((docSnap) => {
+    const duplicate = docSnap.data()!;
+    aliases.add(duplicate.name);
+    (duplicate.aliases || []).forEach((alias: string) => aliases.add(alias));
+  });
+  aliases.delete(survivor.name);
+
+  writer.update(survivorRef, {
+    normalizedName: normalizeName(survivor.name),
+    aliases: Array.from(aliases),
+    normalizedAliases: Array.from(new Set(Array.from(aliases).map(normalizeName))),
+  });
+  duplicateDocs.forEach((docSnap) => writer.delete(docSnap.ref));
+
+  await writer.close();
+
+  return { merged: duplicateDocs.length };
+};
+
+const parseMergeRequest = (data: any) => {
+  const { survivorId, duplicateIds } = data;
+
+  if (!survivorId || !Array.isArray(duplicateIds) || duplicateIds.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'Survivor ID and duplicate IDs are required');
+  }
+  if (duplicateIds.includes(survivorId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Cannot merge a document into itself');
+  }
+
+  return { survivorId: survivorId as string, duplicateIds: duplicateIds as string[] };
+};
+
+// Callable function to merge duplicate artists into one
+export const mergeArtists = functions.https.onCall(async (data, context) => {
+  assertAdmin(context);
+  const { survivorId, duplicateIds } = parseMergeRequest(data);
+
+  try {
+    return { success: true, ...(await mergeInto('artists', survivorId, duplicateIds)) };
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error('Error in mergeArtists:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to merge artists');
+  }
+});
+
+// Callable function to merge duplicate venues into one
+export const mergeVenues = functions.https.onCall(async (data, context) => {
+  assertAdmin(context);
+  const { survivorId, duplicateIds } = parseMergeRequest(data);
+
+  try {
+    return { success: true, ...(await mergeInto('venues', survivorId, duplicateIds)) };
+  } catch (error) {
+    if (error instanceof functions.https.HttpsError) throw error;
+    console.error('Error in mergeVenues:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to merge venues');
+  }
+});
+
+// Callable function listing artists/venues whose names normalize to the same key,
+// backfilling normalizedName on documents created before it existed
+export const findDuplicates = functions.https.onCall(async (data, context) => {
+  assertAdmin(context);
+
+  const { kind } = data;
+  if (kind !== 'artists' && kind !== 'venues') {
+    throw new functions.https.HttpsError('invalid-argument', 'Kind must be "artists" or "venues"');
+  }
+
+  try {
+    const db = admin.firestore();
+    const snapshot = await db.collection(kind).get();
+    const groups = new Map<string, { id: string; name: string }[]>();
+    const writer = db.bulkWriter();
+
+    snapshot.docs.forEach((docSnap) => {
+      const { name, normalizedName } = docSnap.data();
+      const key = normalizeName(name || '');
+      if (normalizedName !== key) {
+        writer.update(docSnap.ref, { normalizedName: key });
+      }
+
+      groups.set(key, [...(groups.get(key) || []), { id: docSnap.id, name }]);
+    });
+
+    await writer.close();
+
+    return {
+      duplicates: Array.from(groups.entries())
+        .filter(([, entries]) => entries.length > 1)
+        .map(([normalizedName, entries]) => ({ normalizedName, entries })),
+    };
+  } catch (error) {
+    console.error('Error in findDuplicates:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to find duplicates');
+  }
+});
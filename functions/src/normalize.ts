@@ -0,0 +1,10 @@
+// Matching key for artist and venue names. Mirrors utils/normalize.ts in the app;
+// merges depend on both sides producing identical keys, so keep them in sync.
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics left behind by NFD
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
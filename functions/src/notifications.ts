@@ -0,0 +1,211 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { deleteCollection } from './cleanup';
+
+// In-app notifications, stored in notifications/{id}. Activity on the same target (a review's
+// likes, a review's comments, or new followers) shares a groupKey, and while the group's latest
+// notification is unread further activity is folded into it ("Ana and 4 others liked your
+// review"); once read, the next like or follow starts a fresh document and the read one is kept.
+// Undoing an action (unlike, deleting a comment, unfollowing) takes the actor back out of an
+// unread notification.
+
+type NotificationType = 'review_liked' | 'review_commented' | 'new_follower';
+
+// Names kept for display; actorCount carries the full total
+const MAX_ACTOR_NAMES = 3;
+
+const MAX_PREVIEW_LENGTH = 100;
+
+interface NotificationTarget {
+  type: NotificationType;
+  recipientPath: string;
+  reviewPath?: string;
+}
+
+const buildGroupKey = ({ type, recipientPath, reviewPath }: NotificationTarget) =>
+  [recipientPath.split('/').pop(), type, reviewPath?.split('/').pop()].filter(Boolean).join('_');
+
+// The target's unread notification, if there is one. Read inside the transaction, so a
+// concurrent action can't start a second one.
+const getUnreadNotification = async (
+  db: admin.firestore.Firestore,
+  transaction: admin.firestore.Transaction,
+  target: NotificationTarget
+) => {
+  const unreadSnapshot = await transaction.get(db.collection('notifications')
+    .where('groupKey', '==', buildGroupKey(target))
+    .where('read', '==', false)
+    .limit(1));
+  return unreadSnapshot.empty ? null : unreadSnapshot.docs[0];
+};
+
+// Who wrote a review and which concert it's about, for notifications on it
+const getReviewContext = async (db: admin.firestore.Firestore, reviewPath: string) => {
+  const reviewDoc = await db.doc(reviewPath).get();
+  const review = reviewDoc.data();
+  if (!review?.userRef) return null;
+
+  const concertDoc = review.concertRef ? await db.doc(review.concertRef).get() : null;
+  const concert = concertDoc?.data();
+
+  return {
+    authorPath: review.userRef as string,
+    concertRef: (review.concertRef || '') as string,
+    concertName: (concert?.festivalName || concert?.artistName || 'a concert') as string,
+  };
+};
+
+// Fold an actor into the recipient's notification for this target
+const addActor = async (
+  db: admin.firestore.Firestore,
+  target: NotificationTarget,
+  actorPath: string,
+  details: Record<string, string> = {}
+): Promise<void> => {
+  if (actorPath === target.recipientPath) return;
+
+  const actorDoc = await db.doc(actorPath).get();
+  const actorName = actorDoc.data()?.displayName || 'Someone';
+
+  await db.runTransaction(async (transaction) => {
+    const notificationDoc = await getUnreadNotification(db, transaction, target);
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    if (notificationDoc) {
+      const existing = notificationDoc.data();
+      const actorRefs: string[] = existing.actorRefs.filter((ref: string) => ref !== actorPath);
+      const actorNames: string[] = existing.actorNames.filter((_: string, index: number) =>
+        existing.actorRefs[index] !== actorPath);
+
+      transaction.update(notificationDoc.ref, {
+        ...details,
+        actorRefs: [actorPath, ...actorRefs],
+        actorNames: [actorName, ...actorNames].slice(0, MAX_ACTOR_NAMES),
+        actorCount: actorRefs.length + 1,
+        updatedAt: now,
+      });
+      return;
+    }
+
+    transaction.set(db.collection('notifications').doc(), {
+      ...details,
+      groupKey: buildGroupKey(target),
+      type: target.type,
+      recipientRef: target.recipientPath,
+      reviewRef: target.reviewPath || '',
+      actorRefs: [actorPath],
+      actorNames: [actorName],
+      actorCount: 1,
+      read: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+};
+
+// Take an actor back out of an unread notification, deleting it if nobody is left
+const removeActor = async (
+  db: admin.firestore.Firestore,
+  target: NotificationTarget,
+  actorPath: string
+): Promise<void> => {
+  await db.runTransaction(async (transaction) => {
+    const notificationDoc = await getUnreadNotification(db, transaction, target);
+    if (!notificationDoc) return;
+
+    const existing = notificationDoc.data();
+    const index = existing.actorRefs.indexOf(actorPath);
+    if (index === -1) return;
+
+    const actorRefs: string[] = existing.actorRefs.filter((ref: string) => ref !== actorPath);
+    if (actorRefs.length === 0) {
+      transaction.delete(notificationDoc.ref);
+      return;
+    }
+
+    // Only the names kept for display are known, so the list may come up one short
+    transaction.update(notificationDoc.ref, {
+      actorRefs,
+      actorNames: existing.actorNames.filter((_: string, nameIndex: number) => nameIndex !== index),
+      actorCount: actorRefs.length,
+    });
+  });
+};
+
+// Tell a review's author when it's liked, and take the like back out when it's undone
+export const notifyReviewLike = functions.firestore
+  .document('reviews/{reviewId}/likedBy/{userId}')
+  .onWrite(async (change, context) => {
+    const db = admin.firestore();
+    const reviewPath = `reviews/${context.params.reviewId}`;
+    const actorPath = `users/${context.params.userId}`;
+
+    const review = await getReviewContext(db, reviewPath);
+    if (!review) return null;
+
+    const target: NotificationTarget = { type: 'review_liked', recipientPath: review.authorPath, reviewPath };
+
+    if (!change.after.exists) {
+      await removeActor(db, target, actorPath);
+    } else if (!change.before.exists) {
+      await addActor(db, target, actorPath, { concertRef: review.concertRef, concertName: review.concertName });
+    }
+    return null;
+  });
+
+// Tell a review's author about new comments
+export const notifyReviewComment = functions.firestore
+  .document('reviews/{reviewId}/comments/{commentId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    // Edits don't notify anyone again
+    if (before && after) return null;
+
+    const db = admin.firestore();
+    const reviewPath = `reviews/${context.params.reviewId}`;
+    const comment = (after || before)!;
+
+    const review = await getReviewContext(db, reviewPath);
+    if (!review) return null;
+
+    const target: NotificationTarget = { type: 'review_commented', recipientPath: review.authorPath, reviewPath };
+
+    if (!after) {
+      await removeActor(db, target, comment.userRef);
+    } else {
+      const text: string = after.text || '';
+      await addActor(db, target, after.userRef, {
+        concertRef: review.concertRef,
+        concertName: review.concertName,
+        preview: text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text,
+      });
+    }
+    return null;
+  });
+
+// Tell people when someone follows them. Fired from the follower's own following list, which
+// only they can write, rather than the server-maintained followers mirror.
+export const notifyNewFollower = functions.firestore
+  .document('users/{userId}/following/{followedUserId}')
+  .onWrite(async (change, context) => {
+    const db = admin.firestore();
+    const target: NotificationTarget = { type: 'new_follower', recipientPath: `users/${context.params.followedUserId}` };
+    const actorPath = `users/${context.params.userId}`;
+
+    if (!change.after.exists) {
+      await removeActor(db, target, actorPath);
+    } else if (!change.before.exists) {
+      await addActor(db, target, actorPath);
+    }
+    return null;
+  });
+
+// A deleted review takes its notifications with it
+export const removeReviewNotifications = functions.firestore
+  .document('reviews/{reviewId}')
+  .onDelete(async (snapshot) => {
+    await deleteCollection(admin.firestore().collection('notifications').where('reviewRef', '==', snapshot.ref.path));
+    return null;
+  });
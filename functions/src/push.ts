@@ -0,0 +1,230 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Device push notifications. Tokens live in users/{uid}/pushTokens/{token} and preferences in
+// the user document's notificationPreferences (see NotificationPreferences in the app). Sending
+// goes through a PushTransport so the emulator and tests can swap Expo's push service for a
+// fake that only records what would have been delivered.
+
+export type PushType = 'follows' | 'likes' | 'comments' | 'friendShows';
+
+export interface PushMessage {
+  to: string; // Expo push token
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+export interface PushReceipt {
+  token: string;
+  ok: boolean;
+  unregistered: boolean; // The token is dead and should be forgotten
+}
+
+export interface PushTransport {
+  send: (messages: PushMessage[]) => Promise<PushReceipt[]>;
+}
+
+interface NotificationPreferences {
+  follows: boolean;
+  likes: boolean;
+  comments: boolean;
+  friendShows: boolean;
+  quietHours: { enabled: boolean; startHour: number; endHour: number };
+  utcOffsetMinutes: number;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  follows: true,
+  likes: true,
+  comments: true,
+  friendShows: true,
+  quietHours: { enabled: false, startHour: 22, endHour: 8 },
+  utcOffsetMinutes: 0,
+};
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo accepts at most this many messages per request
+const EXPO_BATCH_SIZE = 100;
+
+// Delivers through Expo's push service, which fans out to APNs and FCM
+export const createExpoTransport = (): PushTransport => ({
+  send: async (messages) => {
+    const receipts: PushReceipt[] = [];
+
+    for (let start = 0; start < messages.length; start += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(start, start + EXPO_BATCH_SIZE);
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify(batch.map((message) => ({ ...message, sound: 'default' }))),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Expo push service responded ${response.status}`);
+      }
+
+      const { data: tickets } = await response.json() as {
+        data: { status: 'ok' | 'error'; details?: { error?: string } }[];
+      };
+      batch.forEach((message, index) => {
+        const ticket = tickets[index];
+        receipts.push({
+          token: message.to,
+          ok: ticket?.status === 'ok',
+          unregistered: ticket?.details?.error === 'DeviceNotRegistered',
+        });
+      });
+    }
+
+    return receipts;
+  },
+});
+
+// Records messages instead of delivering them. Tokens in `unregistered` are reported dead,
+// to exercise token cleanup.
+export const createFakeTransport = (unregistered: string[] = []) => {
+  const sent: PushMessage[] = [];
+
+  const transport: PushTransport = {
+    send: async (messages) => {
+      sent.push(...messages);
+      messages.forEach((message) => functions.logger.debug(`[push] ${message.to}: ${message.title} - ${message.body}`));
+
+      return messages.map((message) => ({
+        token: message.to,
+        ok: !unregistered.includes(message.to),
+        unregistered: unregistered.includes(message.to),
+      }));
+    },
+  };
+
+  return { transport, sent };
+};
+
+// The emulator never talks to the real push service
+let transport: PushTransport = process.env.FUNCTIONS_EMULATOR === 'true' || process.env.PUSH_TRANSPORT === 'fake'
+  ? createFakeTransport().transport
+  : createExpoTransport();
+
+// Swap the transport, e.g. for a fake in tests
+export const setPushTransport = (nextTransport: PushTransport) => {
+  transport = nextTransport;
+};
+
+const getPreferences = (userData: admin.firestore.DocumentData | undefined): NotificationPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...userData?.notificationPreferences,
+  quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...userData?.notificationPreferences?.quietHours },
+});
+
+// Whether `now` falls inside the user's quiet hours, in their local time. Windows may wrap
+// past midnight (22 to 8); equal start and end hours mean no quiet time at all.
+export const isQuietTime = (preferences: NotificationPreferences, now: Date): boolean => {
+  const { enabled, startHour, endHour } = preferences.quietHours;
+  if (!enabled || startHour === endHour) return false;
+
+  const utcMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  const localHour = Math.floor((((utcMinutes + preferences.utcOffsetMinutes) % 1440) + 1440) % 1440 / 60);
+
+  return startHour < endHour
+    ? localHour >= startHour && localHour < endHour
+    : localHour >= startHour || localHour < endHour;
+};
+
+// Push to every device the user has registered, unless they've turned this type off or it's
+// their quiet time. Tokens the push service reports as dead are removed.
+export const sendPushToUser = async (
+  db: admin.firestore.Firestore,
+  userPath: string,
+  type: PushType,
+  content: { title: string; body: string; data?: Record<string, string> }
+): Promise<number> => {
+  const userRef = db.doc(userPath);
+  const [userDoc, tokensSnapshot] = await Promise.all([userRef.get(), userRef.collection('pushTokens').get()]);
+  if (!userDoc.exists || tokensSnapshot.empty) return 0;
+
+  const preferences = getPreferences(userDoc.data());
+  if (!preferences[type] || isQuietTime(preferences, new Date())) return 0;
+
+  const receipts = await transport.send(tokensSnapshot.docs.map((tokenDoc) => ({
+    to: tokenDoc.id,
+    title: content.title,
+    body: content.body,
+    data: { type, ...content.data },
+  })));
+
+  const deadTokens = receipts.filter((receipt) => receipt.unregistered);
+  await Promise.all(deadTokens.map((receipt) => userRef.collection('pushTokens').doc(receipt.token).delete()));
+
+  return receipts.filter((receipt) => receipt.ok).length;
+};
+
+const PUSH_TYPES: Record<string, PushType> = {
+  review_liked: 'likes',
+  review_commented: 'comments',
+  new_follower: 'follows',
+};
+
+// Mirror in-app notifications to devices. Each new actor folded into a notification is
+// pushed on its own, since the device can't update a push it already showed.
+export const pushOnNotification = functions.firestore
+  .document('notifications/{notificationId}')
+  .onWrite(async (change) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    if (!after || after.read) return null;
+
+    const isNewActor = !before || after.actorCount > before.actorCount;
+    if (!isNewActor) return null;
+
+    const actorName = after.actorNames[0] || 'Someone';
+    const bodies: Record<string, string> = {
+      review_liked: `${actorName} liked your review of ${after.concertName}`,
+      review_commented: `${actorName} commented on your review of ${after.concertName}: ${after.preview || ''}`,
+      new_follower: `${actorName} started following you`,
+    };
+
+    await sendPushToUser(admin.firestore(), after.recipientRef, PUSH_TYPES[after.type], {
+      title: 'Harmony Hub',
+      body: bodies[after.type],
+      data: { actorRef: after.actorRefs[0], concertRef: after.concertRef || '' },
+    });
+    return null;
+  });
+
+// "A friend logged a show you were at": when someone logs a show, tell the other attendees
+// who follow them
+export const pushOnFriendShow = functions.firestore
+  .document('concerts/{concertId}')
+  .onCreate(async (snapshot) => {
+    const concert = snapshot.data();
+    if (!concert.eventRef || !concert.userRef) return null;
+
+    const db = admin.firestore();
+    const authorId = concert.userRef.split('/').pop();
+    const attendeesSnapshot = await db.collection('concerts').where('eventRef', '==', concert.eventRef).get();
+    const attendeePaths = Array.from(new Set(
+      attendeesSnapshot.docs
+        .map((docSnap) => docSnap.data().userRef as string)
+        .filter((userRef) => userRef && userRef !== concert.userRef)
+    ));
+    if (attendeePaths.length === 0) return null;
+
+    const [authorDoc, ...followDocs] = await db.getAll(
+      db.doc(concert.userRef),
+      ...attendeePaths.map((attendeePath) => db.doc(`${attendeePath}/following/${authorId}`))
+    );
+    const authorName = authorDoc.data()?.displayName || 'Someone you follow';
+    const showName = concert.festivalName || `${concert.artistName} at ${concert.venueName}`;
+
+    await Promise.all(attendeePaths
+      .filter((_, index) => followDocs[index].exists)
+      .map((attendeePath) => sendPushToUser(db, attendeePath, 'friendShows', {
+        title: 'You were there too',
+        body: `${authorName} logged ${showName}`,
+        data: { actorRef: concert.userRef, concertRef: snapshot.ref.path },
+      })));
+    return null;
+  });
@@ -0,0 +1,185 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { assertAdmin } from './auth';
+
+// Rating aggregates stored as `ratingStats` on artists, venues and events.
+//
+// Each logged concert is one rating of the show: it counts toward the headliner, the venue and
+// the event, and any support act the user rated separately counts toward that act. A review only
+// adds a rating when someone other than the concert's owner gives one of their own (the owner's
+// review just repeats the concert rating). Reviews from before createReview recorded `ownerReview`
+// can't be told apart, so they are left out.
+
+type HistogramKey = '1' | '2' | '3' | '4' | '5';
+
+export interface RatingStats {
+  count: number;
+  sum: number;
+  average: number;
+  histogram: Record<HistogramKey, number>;
+}
+
+type RatedKind = 'artists' | 'venues' | 'events';
+
+const RATED_KINDS: RatedKind[] = ['artists', 'venues', 'events'];
+
+export const emptyStats = (): RatingStats => ({
+  count: 0,
+  sum: 0,
+  average: 0,
+  histogram: { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 },
+});
+
+const isValidRating = (rating: unknown): rating is number =>
+  Number.isInteger(rating) && (rating as number) >= 1 && (rating as number) <= 5;
+
+// Add (delta 1) or remove (delta -1) ratings, never letting a bucket go negative
+const applyRatings = (stats: RatingStats, ratings: number[], delta: 1 | -1): RatingStats => {
+  const next: RatingStats = { ...stats, histogram: { ...emptyStats().histogram, ...stats.histogram } };
+
+  ratings.forEach((rating) => {
+    const key = String(rating) as HistogramKey;
+    if (delta < 0 && next.histogram[key] <= 0) return;
+
+    next.histogram[key] += delta;
+    next.count += delta;
+    next.sum += delta * rating;
+  });
+
+  next.average = next.count > 0 ? Math.round((next.sum / next.count) * 100) / 100 : 0;
+  return next;
+};
+
+// Combine the stats of several documents, e.g. when events are folded together
+export const combineStats = (statsList: (RatingStats | undefined)[]): RatingStats => {
+  return statsList.reduce<RatingStats>((combined, stats) => {
+    if (!stats) return combined;
+
+    const ratings: number[] = [];
+    (Object.keys(combined.histogram) as HistogramKey[]).forEach((key) => {
+      for (let i = 0; i < (stats.histogram?.[key] || 0); i++) ratings.push(Number(key));
+    });
+    return applyRatings(combined, ratings, 1);
+  }, emptyStats());
+};
+
+// Ratings a document contributes, keyed by the path of the artist/venue/event they count toward
+type Contributions = Map<string, number[]>;
+
+const addContribution = (contributions: Contributions, path: string | undefined, rating: unknown) => {
+  if (!path || !isValidRating(rating)) return;
+  contributions.set(path, [...(contributions.get(path) || []), rating]);
+};
+
+const concertContributions = (concert: admin.firestore.DocumentData | undefined): Contributions => {
+  const contributions: Contributions = new Map();
+  if (!concert) return contributions;
+
+  addContribution(contributions, concert.artistRef, concert.rating);
+  addContribution(contributions, concert.venueRef, concert.rating);
+  addContribution(contributions, concert.eventRef, concert.rating);
+
+  (concert.lineup || [])
+    .filter((act: any) => act.artistRef !== concert.artistRef)
+    .forEach((act: any) => addContribution(contributions, act.artistRef, act.rating));
+
+  return contributions;
+};
+
+const reviewContributions = (review: admin.firestore.DocumentData | undefined): Contributions => {
+  const contributions: Contributions = new Map();
+  if (!review || review.ownerReview !== false) return contributions;
+
+  addContribution(contributions, review.artistRefs?.[0], review.rating);
+  addContribution(contributions, review.venueRef, review.rating);
+  addContribution(contributions, review.eventRef, review.rating);
+
+  return contributions;
+};
+
+// Move ratings from what a document contributed before a write to what it contributes after
+const applyChange = async (before: Contributions, after: Contributions) => {
+  const db = admin.firestore();
+  const paths = new Set([...before.keys(), ...after.keys()]);
+
+  for (const path of paths) {
+    const removed = before.get(path) || [];
+    const added = after.get(path) || [];
+    if (JSON.stringify([...removed].sort()) === JSON.stringify([...added].sort())) continue;
+
+    await db.runTransaction(async (transaction) => {
+      const targetRef = db.doc(path);
+      const targetDoc = await transaction.get(targetRef);
+
+      // Deleted (e.g. merged away or the event's last attendance removed); nothing to keep up to date
+      if (!targetDoc.exists) return;
+
+      const current = (targetDoc.data()?.ratingStats as RatingStats | undefined) || emptyStats();
+      transaction.update(targetRef, {
+        ratingStats: applyRatings(applyRatings(current, removed, -1), added, 1),
+      });
+    });
+  }
+};
+
+// Keep aggregates in step with concerts as they are logged, re-rated, re-linked or deleted
+export const aggregateConcertRatings = functions.firestore
+  .document('concerts/{concertId}')
+  .onWrite(async (change) => {
+    await applyChange(concertContributions(change.before.data()), concertContributions(change.after.data()));
+    return null;
+  });
+
+export const aggregateReviewRatings = functions.firestore
+  .document('reviews/{reviewId}')
+  .onWrite(async (change) => {
+    await applyChange(reviewContributions(change.before.data()), reviewContributions(change.after.data()));
+    return null;
+  });
+
+// Rebuild every aggregate from the concerts and reviews themselves. Triggers can run twice or
+// be missed, so this is the source of truth when numbers drift.
+export const recomputeAllRatingStats = async (db: admin.firestore.Firestore) => {
+  const totals = new Map<string, number[]>();
+  const collect = (contributions: Contributions) => contributions.forEach((ratings, path) => {
+    totals.set(path, [...(totals.get(path) || []), ...ratings]);
+  });
+
+  const [concertsSnapshot, reviewsSnapshot] = await Promise.all([
+    db.collection('concerts').get(),
+    db.collection('reviews').get(),
+  ]);
+  concertsSnapshot.docs.forEach((docSnap) => collect(concertContributions(docSnap.data())));
+  reviewsSnapshot.docs.forEach((docSnap) => collect(reviewContributions(docSnap.data())));
+
+  const writer = db.bulkWriter();
+  const updated: Record<RatedKind, number> = { artists: 0, venues: 0, events: 0 };
+
+  for (const kind of RATED_KINDS) {
+    const snapshot = await db.collection(kind).select().get();
+    snapshot.docs.forEach((docSnap) => {
+      writer.update(docSnap.ref, {
+        ratingStats: applyRatings(emptyStats(), totals.get(docSnap.ref.path) || [], 1),
+      });
+      updated[kind]++;
+    });
+  }
+
+  await writer.close();
+  return updated;
+};
+
+// Maintenance function for admins to rebuild all rating aggregates
+export const recomputeRatingAggregates = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .https.onCall(async (data, context) => {
+    assertAdmin(context);
+
+    try {
+      const updated = await recomputeAllRatingStats(admin.firestore());
+      return { success: true, updated };
+    } catch (error) {
+      console.error('Error in recomputeRatingAggregates:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to recompute rating aggregates');
+    }
+  });
@@ -10,15 +10,33 @@ import HomeScreen from '../screens/HomeScreen';
 import LogConcertScreen from '../screens/LogConcertScreen';
 import UserProfileScreen from '../screens/UserProfileScreen';
 import ConcertDetailScreen from '../screens/ConcertDetailScreen';
+import UpcomingShowsScreen from '../screens/UpcomingShowsScreen';
+import AddUpcomingShowScreen from '../screens/AddUpcomingShowScreen';
+import ImportConcertsScreen from '../screens/ImportConcertsScreen';
+import DeleteAccountScreen from '../screens/DeleteAccountScreen';
+import ArtistDetailScreen from '../screens/ArtistDetailScreen';
+import VenueDetailScreen from '../screens/VenueDetailScreen';
+import StatsScreen from '../screens/StatsScreen';
+import YearInReviewScreen from '../screens/YearInReviewScreen';
+import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
 import TabNavigator from './TabNavigator';
 
 export type RootStackParamList = {
   Login: undefined;
   SignUp: undefined;
   MainTabs: undefined;
-  LogConcert: undefined;
+  LogConcert: { concertId?: string; upcomingShowId?: string } | undefined;
   UserProfile: { userId?: string };
   ConcertDetail: { concertId: string };
+  UpcomingShows: undefined;
+  AddUpcomingShow: { upcomingShowId?: string } | undefined;
+  ImportConcerts: undefined;
+  DeleteAccount: undefined;
+  ArtistDetail: { artistId: string };
+  VenueDetail: { venueId: string };
+  Stats: undefined;
+  YearInReview: { year?: number } | undefined;
+  NotificationSettings: undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -49,6 +67,15 @@ const AppNavigator: React.FC = () => {
             <Stack.Screen name="LogConcert" component={LogConcertScreen} />
             <Stack.Screen name="UserProfile" component={UserProfileScreen} />
             <Stack.Screen name="ConcertDetail" component={ConcertDetailScreen} />
+            <Stack.Screen name="UpcomingShows" component={UpcomingShowsScreen} />
+            <Stack.Screen name="AddUpcomingShow" component={AddUpcomingShowScreen} />
+            <Stack.Screen name="ImportConcerts" component={ImportConcertsScreen} />
+            <Stack.Screen name="DeleteAccount" component={DeleteAccountScreen} />
+            <Stack.Screen name="ArtistDetail" component={ArtistDetailScreen} />
+            <Stack.Screen name="VenueDetail" component={VenueDetailScreen} />
+            <Stack.Screen name="Stats" component={StatsScreen} />
+            <Stack.Screen name="YearInReview" component={YearInReviewScreen} />
+            <Stack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
           </>
         ) : (
           // Unauthenticated user screens
@@ -1,17 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useContext, useState, useEffect } from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Text, View, StyleSheet, Animated } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import ExploreScreen from '../screens/ExploreScreen';
 import FeedScreen from '../screens/FeedScreen';
 import HomeScreen from '../screens/HomeScreen';
+import NotificationsScreen from '../screens/NotificationsScreen';
+import { AuthContext } from '../context/AuthContext';
+import { subscribeToUnreadCount, MAX_UNREAD_BADGE } from '../services/notificationService';
+import { registerForPushNotifications, subscribeToPushTaps } from '../services/pushService';
+import { RootStackParamList } from '../types';
 import { theme } from '../types/theme';
-import { HomeIcon, SearchIcon, StarIcon } from '../components/ui';
+import { HomeIcon, SearchIcon, StarIcon, BellIcon } from '../components/ui';
 
 export type TabParamList = {
   Home: undefined;
   Explore: undefined;
   Feed: undefined;
+  Notifications: undefined;
 };
 
 const Tab = createBottomTabNavigator<TabParamList>();
@@ -49,6 +57,8 @@ const AnimatedTabIcon = ({ route, focused }: { route: any; focused: boolean }) =
         return <SearchIcon size={iconSize} color={iconColor} />;
       case 'Feed':
         return <StarIcon size={iconSize} color={iconColor} />;
+      case 'Notifications':
+        return <BellIcon size={iconSize} color={iconColor} />;
       default:
         return <HomeIcon size={iconSize} color={iconColor} />;
     }
@@ -127,7 +137,33 @@ const AnimatedTabLabel = ({ route, focused }: { route: any; focused: boolean })
 
 // Main Tab Navigator Component
 const TabNavigator: React.FC = () => {
+  const { user } = useContext(AuthContext);
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'MainTabs'>>();
   const [tabBarAnim] = useState(new Animated.Value(0));
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Keep the bell's badge in step with unread notifications
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUnreadCount(user.uid, setUnreadCount);
+  }, [user]);
+
+  // Register this device for pushes once signed in
+  useEffect(() => {
+    if (!user) return;
+    registerForPushNotifications(user.uid);
+  }, [user]);
+
+  // Tapping a push opens what it's about
+  useEffect(() => {
+    return subscribeToPushTaps((data) => {
+      if (data.type === 'follows' && data.actorRef) {
+        navigation.navigate('UserProfile', { userId: data.actorRef.split('/').pop() });
+      } else if (data.concertRef) {
+        navigation.navigate('ConcertDetail', { concertId: data.concertRef.split('/').pop()! });
+      }
+    });
+  }, [navigation]);
 
   // Entrance animation for tab bar
   useEffect(() => {
@@ -193,6 +229,17 @@ const TabNavigator: React.FC = () => {
           tabBarLabel: 'Feed',
         }}
       />
+      <Tab.Screen
+        name="Notifications"
+        component={NotificationsScreen}
+        options={{
+          tabBarLabel: 'Notifications',
+          tabBarBadge: unreadCount > 0
+            ? (unreadCount > MAX_UNREAD_BADGE ? `${MAX_UNREAD_BADGE}+` : unreadCount)
+            : undefined,
+          tabBarBadgeStyle: styles.tabBarBadge,
+        }}
+      />
     </Tab.Navigator>
   );
 };
@@ -215,6 +262,11 @@ const styles = StyleSheet.create({
   tabBarItem: {
     paddingVertical: 6,
   },
+  tabBarBadge: {
+    backgroundColor: theme.colors.error,
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.xs,
+  },
   iconContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -0,0 +1,456 @@
+import React, { useContext, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import {
+  addUpcomingShow,
+  updateUpcomingShow,
+  getUpcomingShowById,
+  saveTicketmasterEvent,
+} from '../services/upcomingService';
+import { debounce, searchUpcomingEvents } from '../services/searchService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { TicketmasterEvent, UpcomingShowStatus } from '../types';
+import { Button, Input, Card, Chip, MusicIcon, MapPinIcon, CalendarIcon, SearchIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type AddUpcomingShowNavigationProp = StackNavigationProp<RootStackParamList>;
+type AddUpcomingShowRouteProp = RouteProp<RootStackParamList, 'AddUpcomingShow'>;
+
+const AddUpcomingShowScreen: React.FC = () => {
+  const navigation = useNavigation<AddUpcomingShowNavigationProp>();
+  const route = useRoute<AddUpcomingShowRouteProp>();
+  const upcomingShowId = route.params?.upcomingShowId;
+  const isEditing = !!upcomingShowId;
+  const { user } = useContext(AuthContext);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<TicketmasterEvent[]>([]);
+  const [status, setStatus] = useState<UpcomingShowStatus>('going');
+  const [artistName, setArtistName] = useState('');
+  const [venueName, setVenueName] = useState('');
+  const [festivalName, setFestivalName] = useState('');
+  const [date, setDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [section, setSection] = useState('');
+  const [row, setRow] = useState('');
+  const [seat, setSeat] = useState('');
+  const [price, setPrice] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [quantity, setQuantity] = useState('');
+  const [purchaseSource, setPurchaseSource] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    if (!upcomingShowId) return;
+
+    const loadShow = async () => {
+      try {
+        const show = await getUpcomingShowById(upcomingShowId);
+        if (!show) {
+          Alert.alert('Error', 'Show not found');
+          navigation.goBack();
+          return;
+        }
+
+        setStatus(show.status);
+        setArtistName(show.artistName);
+        setVenueName(show.venueName);
+        setFestivalName(show.festivalName || '');
+        setDate(show.date);
+        setSection(show.ticket?.section || '');
+        setRow(show.ticket?.row || '');
+        setSeat(show.ticket?.seat || '');
+        setPrice(show.ticket?.price !== undefined ? String(show.ticket.price) : '');
+        setCurrency(show.ticket?.currency || 'USD');
+        setQuantity(show.ticket?.quantity !== undefined ? String(show.ticket.quantity) : '');
+        setPurchaseSource(show.ticket?.purchaseSource || '');
+      } catch (error) {
+        console.error('Error loading upcoming show:', error);
+        Alert.alert('Error', 'Failed to load show details');
+      }
+    };
+
+    loadShow();
+  }, [upcomingShowId]);
+
+  const debouncedSearch = useMemo(
+    () => debounce(async (text: string) => {
+      if (!text.trim()) {
+        setSearchResults([]);
+        return;
+      }
+      setSearchResults(await searchUpcomingEvents(text.trim()));
+    }, 400),
+    []
+  );
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    setDate(selectedDate || date);
+  };
+
+  const handleSaveEvent = async (event: TicketmasterEvent) => {
+    if (!user) return;
+
+    try {
+      await saveTicketmasterEvent(user.uid, event, status);
+      Alert.alert('Saved', `${event.name} is on your list.`, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save show');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    if (!artistName.trim() || !venueName.trim()) {
+      setFormError('Artist and venue are required');
+      return;
+    }
+    if (price.trim() && Number.isNaN(Number(price))) {
+      setFormError('Price must be a number');
+      return;
+    }
+    setFormError('');
+
+    const formData = {
+      status,
+      artistName,
+      venueName,
+      date,
+      festivalName,
+      ticket: {
+        section,
+        row,
+        seat,
+        price: price.trim() ? Number(price) : undefined,
+        currency: price.trim() ? currency.toUpperCase() : undefined,
+        quantity: quantity.trim() ? parseInt(quantity, 10) : undefined,
+        purchaseSource,
+      },
+    };
+
+    setLoading(true);
+    try {
+      if (upcomingShowId) {
+        await updateUpcomingShow(upcomingShowId, formData);
+      } else {
+        await addUpcomingShow(user.uid, formData);
+      }
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save show');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Header Section */}
+          <View style={styles.header}>
+            <CalendarIcon size="lg" color="primary" />
+            <Text style={styles.title}>{isEditing ? 'Edit Upcoming Show' : 'Add Upcoming Show'}</Text>
+            <Text style={styles.subtitle}>Keep track of shows you're going to</Text>
+          </View>
+
+          {/* Ticketmaster Search */}
+          {!isEditing && (
+            <Card variant="elevated" style={styles.formCard}>
+              <Text style={styles.sectionTitle}>Find an Event</Text>
+              <Input
+                placeholder="Search Ticketmaster..."
+                value={searchQuery}
+                onChangeText={(text) => {
+                  setSearchQuery(text);
+                  debouncedSearch(text);
+                }}
+                leftIcon={<SearchIcon size="md" color="textSecondary" />}
+              />
+              {searchResults.map((event) => (
+                <TouchableOpacity
+                  key={event.id}
+                  style={styles.resultRow}
+                  onPress={() => handleSaveEvent(event)}
+                >
+                  <View style={styles.resultDetails}>
+                    <Text style={styles.resultName}>{event.name}</Text>
+                    <Text style={styles.resultMeta}>
+                      {[event.venue, event.city, new Date(event.date).toLocaleDateString()].filter(Boolean).join(' · ')}
+                    </Text>
+                  </View>
+                  <Text style={styles.resultAction}>Save</Text>
+                </TouchableOpacity>
+              ))}
+            </Card>
+          )}
+
+          {/* Manual Entry */}
+          <Card variant="elevated" style={styles.formCard}>
+            <Text style={styles.sectionTitle}>{isEditing ? 'Show Details' : 'Or Add It Yourself'}</Text>
+
+            <View style={styles.chipRow}>
+              <Chip label="Going" active={status === 'going'} onPress={() => setStatus('going')} />
+              <Chip label="Interested" active={status === 'interested'} onPress={() => setStatus('interested')} />
+            </View>
+
+            <Input
+              label="Artist"
+              placeholder="Who's playing?"
+              value={artistName}
+              onChangeText={setArtistName}
+              leftIcon={<MusicIcon size="md" color="textSecondary" />}
+              autoCapitalize="words"
+            />
+            <Input
+              label="Venue"
+              placeholder="Where is it?"
+              value={venueName}
+              onChangeText={setVenueName}
+              leftIcon={<MapPinIcon size="md" color="textSecondary" />}
+              autoCapitalize="words"
+            />
+            <Input
+              label="Festival Name (optional)"
+              placeholder="Part of a festival?"
+              value={festivalName}
+              onChangeText={setFestivalName}
+              autoCapitalize="words"
+            />
+
+            <Text style={styles.fieldLabel}>Date</Text>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+              <CalendarIcon size="md" color="primary" />
+              <Text style={styles.dateButtonText}>
+                {date.toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                })}
+              </Text>
+            </TouchableOpacity>
+            {showDatePicker && (
+              <DateTimePicker
+                value={date}
+                mode="date"
+                display="default"
+                onChange={handleDateChange}
+              />
+            )}
+
+            <Text style={styles.sectionTitle}>Tickets</Text>
+            <View style={styles.inlineRow}>
+              <Input
+                placeholder="Section"
+                value={section}
+                onChangeText={setSection}
+                size="sm"
+                containerStyle={styles.inlineInput}
+              />
+              <Input
+                placeholder="Row"
+                value={row}
+                onChangeText={setRow}
+                size="sm"
+                containerStyle={styles.inlineInput}
+              />
+              <Input
+                placeholder="Seat"
+                value={seat}
+                onChangeText={setSeat}
+                size="sm"
+                containerStyle={styles.inlineInput}
+              />
+            </View>
+            <View style={styles.inlineRow}>
+              <Input
+                placeholder="Total price"
+                value={price}
+                onChangeText={setPrice}
+                keyboardType="decimal-pad"
+                size="sm"
+                containerStyle={styles.priceInput}
+              />
+              <Input
+                placeholder="USD"
+                value={currency}
+                onChangeText={setCurrency}
+                autoCapitalize="characters"
+                maxLength={3}
+                size="sm"
+                containerStyle={styles.inlineInput}
+              />
+              <Input
+                placeholder="Qty"
+                value={quantity}
+                onChangeText={setQuantity}
+                keyboardType="number-pad"
+                size="sm"
+                containerStyle={styles.inlineInput}
+              />
+            </View>
+            <Input
+              placeholder="Bought from (Ticketmaster, box office...)"
+              value={purchaseSource}
+              onChangeText={setPurchaseSource}
+              size="sm"
+            />
+
+            {formError ? <Text style={styles.errorText}>{formError}</Text> : null}
+
+            <Button
+              title={isEditing ? 'Save Changes' : 'Add to My Shows'}
+              onPress={handleSubmit}
+              loading={loading}
+              variant="gradient"
+              size="lg"
+              fullWidth
+              style={styles.submitButton}
+            />
+          </Card>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  formCard: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.md,
+  },
+  fieldLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  resultDetails: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.medium as any,
+    color: theme.colors.text,
+  },
+  resultMeta: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  resultAction: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.primary,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.outline,
+    marginBottom: theme.spacing.md,
+  },
+  dateButtonText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+    flex: 1,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  priceInput: {
+    flex: 2,
+  },
+  errorText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+    marginTop: theme.spacing.xs,
+  },
+  submitButton: {
+    marginTop: theme.spacing.lg,
+  },
+});
+
+export default AddUpcomingShowScreen;
@@ -0,0 +1,360 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { AuthContext } from '../context/AuthContext';
+import { getArtistByRef } from '../services/concertService';
+import { getArtistConcerts, getArtistTopReviews } from '../services/artistService';
+import { groupConcertsIntoShows } from '../services/eventService';
+import { getFollowedAttendees } from '../services/feedService';
+import { RootStackParamList, Artist, Review, ShowSummary, FollowedAttendee } from '../types';
+import {
+  Button,
+  Card,
+  Chip,
+  MusicIcon,
+  MapPinIcon,
+  CalendarIcon,
+  StarIcon,
+  HeartIcon,
+  UsersIcon,
+  MessageSquareIcon,
+  ChevronRightIcon,
+} from '../components/ui';
+import { RatingSummary } from '../components/RatingSummary';
+import { theme } from '../types/theme';
+
+type ArtistDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ArtistDetail'>;
+type ArtistDetailScreenRouteProp = RouteProp<RootStackParamList, 'ArtistDetail'>;
+
+interface Props {
+  navigation: ArtistDetailScreenNavigationProp;
+  route: ArtistDetailScreenRouteProp;
+}
+
+// Shows listed before "Show All" is tapped
+const INITIAL_SHOWS = 10;
+
+const ArtistDetailScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { user } = useContext(AuthContext);
+  const { artistId } = route.params;
+  const [artist, setArtist] = useState<Artist | null>(null);
+  const [shows, setShows] = useState<ShowSummary[]>([]);
+  const [topReviews, setTopReviews] = useState<Review[]>([]);
+  const [followedAttendees, setFollowedAttendees] = useState<FollowedAttendee[]>([]);
+  const [showAllShows, setShowAllShows] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Reload on focus so concerts and reviews added elsewhere show up
+  useFocusEffect(
+    useCallback(() => {
+      loadArtist();
+    }, [artistId])
+  );
+
+  const loadArtist = async () => {
+    const artistRef = `artists/${artistId}`;
+
+    try {
+      setLoading(true);
+      const [artistData, concerts, reviews] = await Promise.all([
+        getArtistByRef(artistRef),
+        getArtistConcerts(artistRef),
+        getArtistTopReviews(artistRef),
+      ]);
+
+      setArtist(artistData);
+      setShows(groupConcertsIntoShows(concerts));
+      setTopReviews(reviews);
+      setFollowedAttendees(user ? await getFollowedAttendees(user.uid, concerts) : []);
+    } catch (error) {
+      console.error('Error loading artist:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open the user's own log of the show if they were there, otherwise the first one
+  const openShow = (show: ShowSummary) => {
+    const ownConcert = show.concerts.find((concert) => concert.userRef === `users/${user?.uid}`);
+    navigation.navigate('ConcertDetail', { concertId: (ownConcert || show.concerts[0]).id });
+  };
+
+  const renderStars = (rating: number) => (
+    <View style={styles.starsRow}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <StarIcon key={star} size="sm" color={star <= rating ? 'warning' : 'textTertiary'} />
+      ))}
+    </View>
+  );
+
+  const renderShow = (show: ShowSummary) => (
+    <TouchableOpacity key={show.key} style={styles.listRow} onPress={() => openShow(show)}>
+      <View style={styles.listRowContent}>
+        <View style={styles.detailRow}>
+          <CalendarIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowTitle}>
+            {show.date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <MapPinIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowSubtitle}>
+            {[show.festivalName, show.venueName || 'Unknown Venue'].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+        <Text style={styles.rowMeta}>
+          {show.concerts.length} {show.concerts.length === 1 ? 'person' : 'people'} logged this show
+        </Text>
+      </View>
+      <ChevronRightIcon size="md" color="textSecondary" />
+    </TouchableOpacity>
+  );
+
+  const renderReview = (review: Review) => (
+    <TouchableOpacity
+      key={review.id}
+      style={styles.listRow}
+      onPress={() => navigation.navigate('ConcertDetail', { concertId: review.concertRef.split('/').pop()! })}
+    >
+      <View style={styles.listRowContent}>
+        {review.rating > 0 && renderStars(review.rating)}
+        <Text style={styles.reviewText} numberOfLines={4}>{review.text}</Text>
+        <View style={styles.detailRow}>
+          <HeartIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowMeta}>{review.likesCount}</Text>
+          <MessageSquareIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowMeta}>{review.commentsCount}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderFollowedAttendee = ({ user: attendee, showsCount }: FollowedAttendee) => (
+    <TouchableOpacity
+      key={attendee.uid}
+      style={styles.listRow}
+      onPress={() => navigation.navigate('UserProfile', { userId: attendee.uid })}
+    >
+      <View style={styles.listRowContent}>
+        <Text style={styles.rowTitle}>{attendee.displayName || 'Anonymous'}</Text>
+        <Text style={styles.rowMeta}>
+          Seen {showsCount} {showsCount === 1 ? 'time' : 'times'}
+        </Text>
+      </View>
+      <ChevronRightIcon size="md" color="textSecondary" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {loading && !artist ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Loading artist...</Text>
+            </Card>
+          ) : !artist ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Artist not found</Text>
+              <Button title="Go Back" onPress={() => navigation.goBack()} variant="outline" size="md" />
+            </Card>
+          ) : (
+            <>
+              {/* Header Section */}
+              <View style={styles.header}>
+                {artist.imageUrl ? (
+                  <Image source={{ uri: artist.imageUrl }} style={styles.artistImage} />
+                ) : (
+                  <MusicIcon size="xl" color="secondary" />
+                )}
+                <Text style={styles.title}>{artist.name}</Text>
+                {artist.genre && artist.genre.length > 0 ? (
+                  <View style={styles.genreRow}>
+                    {artist.genre.map((genre) => (
+                      <Chip key={genre} label={genre} />
+                    ))}
+                  </View>
+                ) : (
+                  <Text style={styles.subtitle}>Genre unknown</Text>
+                )}
+              </View>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <StarIcon size="md" color="warning" />
+                  <Text style={styles.sectionTitle}>Live Ratings</Text>
+                </View>
+                <RatingSummary stats={artist.ratingStats} />
+              </Card>
+
+              {followedAttendees.length > 0 && (
+                <Card variant="elevated" style={styles.card}>
+                  <View style={styles.sectionTitleRow}>
+                    <UsersIcon size="md" color="primary" />
+                    <Text style={styles.sectionTitle}>People You Follow Who've Seen Them</Text>
+                  </View>
+                  {followedAttendees.map(renderFollowedAttendee)}
+                </Card>
+              )}
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <MessageSquareIcon size="md" color="primary" />
+                  <Text style={styles.sectionTitle}>Top Reviews</Text>
+                </View>
+                {topReviews.length === 0 ? (
+                  <Text style={styles.emptyText}>No reviews yet</Text>
+                ) : (
+                  topReviews.map(renderReview)
+                )}
+              </Card>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <CalendarIcon size="md" color="primary" />
+                  <Text style={styles.sectionTitle}>Shows ({shows.length})</Text>
+                </View>
+                {shows.length === 0 ? (
+                  <Text style={styles.emptyText}>Nobody has logged a show yet</Text>
+                ) : (
+                  (showAllShows ? shows : shows.slice(0, INITIAL_SHOWS)).map(renderShow)
+                )}
+                {!showAllShows && shows.length > INITIAL_SHOWS && (
+                  <Button
+                    title={`Show All ${shows.length} Shows`}
+                    onPress={() => setShowAllShows(true)}
+                    variant="ghost"
+                    size="md"
+                    fullWidth
+                  />
+                )}
+              </Card>
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  artistImage: {
+    width: 120,
+    height: 120,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  genreRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  listRowContent: {
+    flex: 1,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.xs,
+  },
+  rowTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.xs,
+  },
+  rowSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+  },
+  rowMeta: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+    marginRight: theme.spacing.md,
+  },
+  reviewText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    lineHeight: 22,
+    marginBottom: theme.spacing.xs,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+});
+
+export default ArtistDetailScreen;
@@ -1,29 +1,40 @@
-import React, { useContext, useEffect, useState } from 'react';
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
+import { ImagePickerAsset } from 'expo-image-picker';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RouteProp } from '@react-navigation/native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Unsubscribe } from 'firebase/firestore';
 import { AuthContext } from '../context/AuthContext';
 import {
   getConcertById,
   getArtistByRef,
   getVenueByRef,
   submitReview,
-  getConcertReviews,
+  subscribeToConcertReviews,
+  subscribeToEventReviews,
+  subscribeToReviewComments,
   toggleReviewLike,
   addCommentToReview,
-  getReviewComments,
+  editReview,
+  deleteReview,
+  editComment,
+  deleteComment,
   hasUserLikedReview,
   getUserByRef,
+  deleteConcert,
 } from '../services/concertService';
-import { RootStackParamList, Concert, Artist, Venue, Review } from '../types';
+import { getEventAttendance } from '../services/eventService';
+import { pickMedia, uploadMedia, removeMedia, MediaOwner } from '../services/mediaService';
+import { RootStackParamList, Concert, Artist, Venue, Review, User, MediaAttachment } from '../types';
 import {
   Button,
   Input,
@@ -38,8 +49,14 @@ import {
   UserIcon,
   SendIcon,
   ChevronDownIcon,
-  ChevronUpIcon
+  ChevronUpIcon,
+  EditIcon,
+  TrashIcon,
+  CameraIcon,
 } from '../components/ui';
+import { SetlistView } from '../components/SetlistView';
+import { LineupView } from '../components/LineupView';
+import { MediaGallery } from '../components/MediaGallery';
 import { theme } from '../types/theme';
 
 type ConcertDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ConcertDetail'>;
@@ -57,9 +74,12 @@ interface ReviewWithDetails extends Review {
   showComments?: boolean;
   newComment?: string;
   isSubmittingComment?: boolean;
+  editingText?: string; // Set while the author is editing the review
+  editingComment?: { id: string; text: string };
+  isSavingEdit?: boolean;
 }
 
-const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
+const ConcertDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const { user } = useContext(AuthContext);
   const { concertId } = route.params;
 
@@ -67,14 +87,23 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
   const [artist, setArtist] = useState<Artist | null>(null);
   const [venue, setVenue] = useState<Venue | null>(null);
   const [reviews, setReviews] = useState<ReviewWithDetails[]>([]);
+  const [attendees, setAttendees] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [submittingReview, setSubmittingReview] = useState(false);
   const [reviewText, setReviewText] = useState('');
+  const [reviewAssets, setReviewAssets] = useState<ImagePickerAsset[]>([]);
+  const [uploadingMedia, setUploadingMedia] = useState(false);
   const [usingFallbackQuery, setUsingFallbackQuery] = useState(false);
+  const [deletingConcert, setDeletingConcert] = useState(false);
 
-  useEffect(() => {
-    loadConcertData();
-  }, [concertId]);
+  const isOwnConcert = !!user && concert?.userRef === `users/${user.uid}`;
+
+  // Reload whenever the screen regains focus so edits made elsewhere show up
+  useFocusEffect(
+    useCallback(() => {
+      loadConcertData();
+    }, [concertId])
+  );
 
   const loadConcertData = async () => {
     try {
@@ -96,8 +125,8 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
       setArtist(artistData);
       setVenue(venueData);
 
-      // Load reviews
-      await loadReviews();
+      // Load everyone who logged the same show; reviews arrive through their listener
+      await loadAttendees(concertData.eventRef);
     } catch (error) {
       console.error('Error loading concert data:', error);
       Alert.alert('Error', 'Failed to load concert details');
@@ -106,36 +135,105 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
     }
   };
 
-  const loadReviews = async () => {
-    try {
-      console.log('Loading concert reviews...');
-      setUsingFallbackQuery(false); // Reset fallback state
-
-      const { reviews: reviewsData, usingFallback } = await getConcertReviews(concertId);
-      setUsingFallbackQuery(usingFallback);
-      const reviewsWithDetails: ReviewWithDetails[] = [];
-
-      for (const review of reviewsData) {
-        const user = await getUserByRef(review.userRef);
-        const hasLiked = user ? await hasUserLikedReview(review.id, user.uid) : false;
-
-        reviewsWithDetails.push({
-          ...review,
-          user,
-          hasLiked,
-          comments: [],
-          showComments: false,
-          newComment: '',
-          isSubmittingComment: false,
-        });
-      }
+  const loadAttendees = async (eventRef?: string) => {
+    if (!eventRef) {
+      setAttendees([]);
+      return;
+    }
 
-      setReviews(reviewsWithDetails);
+    try {
+      const attendance = await getEventAttendance(eventRef);
+      const attendeeUsers = await Promise.all(
+        attendance.map((attendanceLog) => getUserByRef(attendanceLog.userRef))
+      );
+      setAttendees(attendeeUsers.filter((attendee): attendee is User => attendee !== null));
     } catch (error) {
-      console.error('Error loading reviews:', error);
+      console.error('Error loading attendees:', error);
     }
   };
 
+  // Shows linked to an event aggregate every attendee's reviews; older logs only have their own.
+  // Both stay live, so new reviews, edits, likes and comment counts appear without reopening.
+  const reviewSource = concert ? concert.eventRef || '' : null;
+  useEffect(() => {
+    if (reviewSource === null) return;
+
+    // Author and the viewer's like, fetched once per review rather than on every update
+    const reviewDetails = new Map<string, Promise<[User | null, boolean]>>();
+    let latestSnapshot = 0;
+
+    const handleReviews = async (reviewsData: Review[], usingFallback: boolean) => {
+      const snapshotNumber = ++latestSnapshot;
+
+      try {
+        const details = await Promise.all(reviewsData.map((review) => {
+          if (!reviewDetails.has(review.id)) {
+            reviewDetails.set(review.id, Promise.all([
+              getUserByRef(review.userRef),
+              user ? hasUserLikedReview(review.id, user.uid) : Promise.resolve(false),
+            ]));
+          }
+          return reviewDetails.get(review.id)!;
+        }));
+
+        // A newer snapshot arrived while details were loading
+        if (snapshotNumber !== latestSnapshot) return;
+
+        setUsingFallbackQuery(usingFallback);
+        setReviews(prevReviews =>
+          reviewsData.map((review, index) => {
+            // Keep what the viewer has open or is typing
+            const existing = prevReviews.find(prevReview => prevReview.id === review.id);
+            if (existing) return { ...existing, ...review };
+
+            const [author, hasLiked] = details[index];
+            return {
+              ...review,
+              user: author,
+              hasLiked,
+              comments: [],
+              showComments: false,
+              newComment: '',
+              isSubmittingComment: false,
+            };
+          })
+        );
+      } catch (error) {
+        console.error('Error loading reviews:', error);
+      }
+    };
+
+    return reviewSource
+      ? subscribeToEventReviews(reviewSource, handleReviews)
+      : subscribeToConcertReviews(concertId, handleReviews);
+  }, [concertId, reviewSource, user?.uid]);
+
+  // Open comment threads are live too; closing one stops its listener
+  const openCommentThreads = reviews.filter(review => review.showComments).map(review => review.id).join(',');
+  const commentSubscriptions = useRef(new Map<string, Unsubscribe>());
+  useEffect(() => {
+    const openReviewIds = new Set(openCommentThreads ? openCommentThreads.split(',') : []);
+
+    commentSubscriptions.current.forEach((unsubscribe, reviewId) => {
+      if (!openReviewIds.has(reviewId)) {
+        unsubscribe();
+        commentSubscriptions.current.delete(reviewId);
+      }
+    });
+
+    openReviewIds.forEach((reviewId) => {
+      if (commentSubscriptions.current.has(reviewId)) return;
+      commentSubscriptions.current.set(reviewId, subscribeToReviewComments(reviewId, (comments) =>
+        updateReviewState(reviewId, { comments, commentsCount: comments.length })
+      ));
+    });
+  }, [openCommentThreads]);
+
+  useEffect(() => () => {
+    commentSubscriptions.current.forEach(unsubscribe => unsubscribe());
+    commentSubscriptions.current.clear();
+  }, []);
+
   const handleSubmitReview = async () => {
     if (!user || !reviewText.trim()) {
       Alert.alert('Error', 'Please enter a review');
@@ -144,17 +242,101 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
 
     setSubmittingReview(true);
     try {
-      await submitReview(concertId, user.uid, 0, reviewText); // Rating will be copied from concert
+      const reviewId = await submitReview(concertId, user.uid, reviewText); // The owner's rating is copied from the concert
+      for (const asset of reviewAssets) {
+        await uploadMedia(user.uid, { collection: 'reviews', id: reviewId }, asset);
+      }
       setReviewText('');
-      await loadReviews(); // Reload reviews to show the new one
+      setReviewAssets([]);
       Alert.alert('Success', 'Review submitted successfully!');
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to submit review');
+      if (error.code === 'functions/already-exists') {
+        // Reviewed from another device or a double tap; the existing one is already listed to edit
+        Alert.alert('Already Reviewed', "You've already reviewed this concert. You can edit your review instead.");
+      } else {
+        Alert.alert('Error', error.message || 'Failed to submit review');
+      }
     } finally {
       setSubmittingReview(false);
     }
   };
 
+  // Only one review per concert, so once it exists the form turns into an edit prompt
+  const myReview = user
+    ? reviews.find(review => review.concertRef === `concerts/${concertId}` && review.userRef === `users/${user.uid}`)
+    : undefined;
+
+  const handleAttachToReview = async () => {
+    try {
+      const assets = await pickMedia();
+      setReviewAssets((current) => [...current, ...assets]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pick media');
+    }
+  };
+
+  const handleAddConcertMedia = async () => {
+    if (!user) return;
+
+    try {
+      const assets = await pickMedia();
+      if (assets.length === 0) return;
+
+      setUploadingMedia(true);
+      for (const asset of assets) {
+        await uploadMedia(user.uid, { collection: 'concerts', id: concertId }, asset);
+      }
+      setConcert(await getConcertById(concertId));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to upload media');
+    } finally {
+      setUploadingMedia(false);
+    }
+  };
+
+  const handleRemoveMedia = async (owner: MediaOwner, attachment: MediaAttachment) => {
+    try {
+      await removeMedia(owner, attachment);
+      // Review media changes arrive through the reviews listener
+      if (owner.collection === 'concerts') {
+        setConcert(await getConcertById(concertId));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to remove media');
+    }
+  };
+
+  const handleEditConcert = () => {
+    navigation.navigate('LogConcert', { concertId });
+  };
+
+  const handleDeleteConcert = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Delete Concert',
+      'This will permanently remove this concert along with its reviews, likes and comments.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeletingConcert(true);
+            try {
+              await deleteConcert(concertId, user.uid);
+              navigation.goBack();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete concert');
+            } finally {
+              setDeletingConcert(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleLikeReview = async (reviewId: string) => {
     if (!user) return;
 
@@ -196,22 +378,8 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
     try {
       await addCommentToReview(reviewId, user.uid, commentText);
 
-      // Reload comments for this review
-      const updatedComments = await getReviewComments(reviewId);
-
-      setReviews(prevReviews =>
-        prevReviews.map(review =>
-          review.id === reviewId
-            ? {
-                ...review,
-                comments: updatedComments,
-                newComment: '',
-                isSubmittingComment: false,
-                commentsCount: updatedComments.length,
-              }
-            : review
-        )
-      );
+      // Opening the thread shows the new comment once its listener picks it up
+      updateReviewState(reviewId, { newComment: '', isSubmittingComment: false, showComments: true });
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to add comment');
       setReviews(prevReviews =>
@@ -224,36 +392,137 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
     }
   };
 
-  const toggleComments = async (reviewId: string) => {
-    const review = reviews.find(r => r.id === reviewId);
-    if (!review) return;
+  const updateReviewState = (reviewId: string, changes: Partial<ReviewWithDetails>) => {
+    setReviews(prevReviews =>
+      prevReviews.map(review => (review.id === reviewId ? { ...review, ...changes } : review))
+    );
+  };
 
-    if (!review.showComments && (!review.comments || review.comments.length === 0)) {
-      // Load comments if not already loaded
-      try {
-        const comments = await getReviewComments(reviewId);
-        setReviews(prevReviews =>
-          prevReviews.map(r =>
-            r.id === reviewId
-              ? { ...r, comments, showComments: true }
-              : r
-          )
-        );
-      } catch (error) {
-        console.error('Error loading comments:', error);
-      }
-    } else {
-      // Toggle visibility
-      setReviews(prevReviews =>
-        prevReviews.map(r =>
-          r.id === reviewId
-            ? { ...r, showComments: !r.showComments }
-            : r
-        )
-      );
+  const handleReviewLongPress = (review: ReviewWithDetails) => {
+    if (!user || review.userRef !== `users/${user.uid}`) return;
+
+    Alert.alert('Your Review', undefined, [
+      { text: 'Edit', onPress: () => updateReviewState(review.id, { editingText: review.text }) },
+      { text: 'Delete', style: 'destructive', onPress: () => handleDeleteReview(review) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSaveReviewEdit = async (review: ReviewWithDetails) => {
+    const text = review.editingText?.trim();
+    if (!user || !text) return;
+
+    updateReviewState(review.id, { isSavingEdit: true });
+    try {
+      await editReview(review.id, user.uid, text);
+      updateReviewState(review.id, { text, edited: true, editingText: undefined, isSavingEdit: false });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to edit review');
+      updateReviewState(review.id, { isSavingEdit: false });
     }
   };
 
+  const handleDeleteReview = (review: ReviewWithDetails) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Delete Review',
+      'This will permanently remove your review along with its likes and comments.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteReview(review.id, user.uid);
+              setReviews(prevReviews => prevReviews.filter(r => r.id !== review.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete review');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCommentLongPress = (review: ReviewWithDetails, comment: any) => {
+    if (!user) return;
+
+    const isCommentAuthor = comment.userRef === `users/${user.uid}`;
+    const isReviewAuthor = review.userRef === `users/${user.uid}`;
+    if (!isCommentAuthor && !isReviewAuthor) return;
+
+    Alert.alert(isCommentAuthor ? 'Your Comment' : 'Comment on Your Review', undefined, [
+      ...(isCommentAuthor
+        ? [{ text: 'Edit', onPress: () => updateReviewState(review.id, { editingComment: { id: comment.id, text: comment.text } }) }]
+        : []),
+      { text: 'Delete', style: 'destructive' as const, onPress: () => handleDeleteComment(review, comment.id) },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleSaveCommentEdit = async (review: ReviewWithDetails) => {
+    const editing = review.editingComment;
+    if (!user || !editing?.text.trim()) return;
+
+    updateReviewState(review.id, { isSavingEdit: true });
+    try {
+      await editComment(review.id, editing.id, user.uid, editing.text.trim());
+      updateReviewState(review.id, {
+        comments: review.comments?.map(comment =>
+          comment.id === editing.id ? { ...comment, text: editing.text.trim(), edited: true } : comment
+        ),
+        editingComment: undefined,
+        isSavingEdit: false,
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to edit comment');
+      updateReviewState(review.id, { isSavingEdit: false });
+    }
+  };
+
+  const handleDeleteComment = (review: ReviewWithDetails, commentId: string) => {
+    if (!user) return;
+
+    Alert.alert('Delete Comment', 'Remove this comment?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteComment(review.id, commentId, user.uid);
+            setReviews(prevReviews =>
+              prevReviews.map(r =>
+                r.id === review.id
+                  ? {
+                      ...r,
+                      comments: r.comments?.filter(comment => comment.id !== commentId),
+                      commentsCount: Math.max(0, r.commentsCount - 1),
+                    }
+                  : r
+              )
+            );
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete comment');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Comments load through their listener once the thread is open
+  const toggleComments = (reviewId: string) => {
+    setReviews(prevReviews =>
+      prevReviews.map(r =>
+        r.id === reviewId
+          ? { ...r, showComments: !r.showComments }
+          : r
+      )
+    );
+  };
+
   const renderStars = (rating: number) => {
     const stars = [];
     for (let i = 1; i <= 5; i++) {
@@ -270,32 +539,75 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
 
   const renderReview = (review: ReviewWithDetails) => (
     <Card key={review.id} variant="elevated" style={styles.reviewCard}>
-      <View style={styles.reviewHeader}>
-        <View style={styles.reviewerInfo}>
-          <View style={styles.reviewerAvatar}>
-            <Text style={styles.reviewerInitial}>
-              {(review.user?.displayName || 'A').charAt(0).toUpperCase()}
-            </Text>
-          </View>
-          <View style={styles.reviewerDetails}>
-            <Text style={styles.reviewerName}>
-              {review.user?.displayName || 'Anonymous'}
-            </Text>
-            <View style={styles.ratingContainer}>
-              {renderStars(review.rating)}
+      <TouchableOpacity activeOpacity={0.8} onLongPress={() => handleReviewLongPress(review)}>
+        <View style={styles.reviewHeader}>
+          <View style={styles.reviewerInfo}>
+            <View style={styles.reviewerAvatar}>
+              <Text style={styles.reviewerInitial}>
+                {(review.user?.displayName || 'A').charAt(0).toUpperCase()}
+              </Text>
+            </View>
+            <View style={styles.reviewerDetails}>
+              <Text style={styles.reviewerName}>
+                {review.user?.displayName || 'Anonymous'}
+              </Text>
+              <View style={styles.ratingContainer}>
+                {renderStars(review.rating)}
+              </View>
             </View>
           </View>
+          <Text style={styles.reviewDate}>
+            {review.createdAt.toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}
+            {review.edited ? ' · edited' : ''}
+          </Text>
         </View>
-        <Text style={styles.reviewDate}>
-          {review.createdAt.toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            year: 'numeric',
-          })}
-        </Text>
-      </View>
 
-      <Text style={styles.reviewText}>{review.text}</Text>
+        {review.editingText !== undefined ? (
+          <View style={styles.editContainer}>
+            <Input
+              value={review.editingText}
+              onChangeText={(text) => updateReviewState(review.id, { editingText: text })}
+              multiline
+              numberOfLines={4}
+            />
+            <View style={styles.editActions}>
+              <Button
+                title="Cancel"
+                onPress={() => updateReviewState(review.id, { editingText: undefined })}
+                variant="ghost"
+                size="sm"
+              />
+              <Button
+                title="Save"
+                onPress={() => handleSaveReviewEdit(review)}
+                loading={review.isSavingEdit}
+                disabled={!review.editingText.trim()}
+                variant="gradient"
+                size="sm"
+              />
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.reviewText}>{review.text}</Text>
+        )}
+      </TouchableOpacity>
+
+      {review.media && review.media.length > 0 && (
+        <View style={styles.reviewMedia}>
+          <MediaGallery
+            media={review.media}
+            thumbnails={review.mediaThumbnails}
+            size={64}
+            onRemove={review.userRef === `users/${user?.uid}`
+              ? (attachment) => handleRemoveMedia({ collection: 'reviews', id: review.id }, attachment)
+              : undefined}
+          />
+        </View>
+      )}
 
       <View style={styles.reviewActions}>
         <IconButton
@@ -324,29 +636,62 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
       {review.showComments && (
         <View style={styles.commentsSection}>
           {review.comments?.map(comment => (
-            <Card key={comment.id} variant="outlined" style={styles.commentCard}>
-              <View style={styles.commentHeader}>
-                <View style={styles.commentAvatar}>
-                  <Text style={styles.commentInitial}>
-                    {(comment.user?.displayName || 'A').charAt(0).toUpperCase()}
-                  </Text>
-                </View>
-                <View style={styles.commentInfo}>
-                  <Text style={styles.commentAuthor}>
-                    {comment.user?.displayName || 'Anonymous'}
-                  </Text>
-                  <Text style={styles.commentDate}>
-                    {comment.createdAt.toLocaleDateString('en-US', {
-                      month: 'short',
-                      day: 'numeric',
-                      hour: 'numeric',
-                      minute: '2-digit',
-                    })}
-                  </Text>
+            <TouchableOpacity
+              key={comment.id}
+              activeOpacity={0.8}
+              onLongPress={() => handleCommentLongPress(review, comment)}
+            >
+              <Card variant="outlined" style={styles.commentCard}>
+                <View style={styles.commentHeader}>
+                  <View style={styles.commentAvatar}>
+                    <Text style={styles.commentInitial}>
+                      {(comment.user?.displayName || 'A').charAt(0).toUpperCase()}
+                    </Text>
+                  </View>
+                  <View style={styles.commentInfo}>
+                    <Text style={styles.commentAuthor}>
+                      {comment.user?.displayName || 'Anonymous'}
+                    </Text>
+                    <Text style={styles.commentDate}>
+                      {comment.createdAt.toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                      {comment.edited ? ' · edited' : ''}
+                    </Text>
+                  </View>
                 </View>
-              </View>
-              <Text style={styles.commentText}>{comment.text}</Text>
-            </Card>
+                {review.editingComment?.id === comment.id ? (
+                  <View style={styles.editContainer}>
+                    <Input
+                      value={review.editingComment?.text}
+                      onChangeText={(text) => updateReviewState(review.id, { editingComment: { id: comment.id, text } })}
+                      multiline
+                    />
+                    <View style={styles.editActions}>
+                      <Button
+                        title="Cancel"
+                        onPress={() => updateReviewState(review.id, { editingComment: undefined })}
+                        variant="ghost"
+                        size="sm"
+                      />
+                      <Button
+                        title="Save"
+                        onPress={() => handleSaveCommentEdit(review)}
+                        loading={review.isSavingEdit}
+                        disabled={!review.editingComment?.text.trim()}
+                        variant="gradient"
+                        size="sm"
+                      />
+                    </View>
+                  </View>
+                ) : (
+                  <Text style={styles.commentText}>{comment.text}</Text>
+                )}
+              </Card>
+            </TouchableOpacity>
           ))}
 
           <View style={styles.addComment}>
@@ -435,15 +780,24 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
                 style={styles.concertGradient}
               >
                 <View style={styles.concertHeader}>
-                  <View style={styles.artistSection}>
+                  {concert.festivalName ? (
+                    <Text style={styles.festivalName}>{concert.festivalName}</Text>
+                  ) : null}
+                  <TouchableOpacity
+                    style={styles.artistSection}
+                    onPress={() => navigation.navigate('ArtistDetail', { artistId: concert.artistRef.split('/').pop()! })}
+                  >
                     <MusicIcon size="lg" color="primary" />
-                    <Text style={styles.artistName}>{artist?.name || 'Unknown Artist'}</Text>
-                  </View>
+                    <Text style={styles.artistName}>{artist?.name || concert.artistName || 'Unknown Artist'}</Text>
+                  </TouchableOpacity>
 
-                  <View style={styles.venueSection}>
+                  <TouchableOpacity
+                    style={styles.venueSection}
+                    onPress={() => navigation.navigate('VenueDetail', { venueId: concert.venueRef.split('/').pop()! })}
+                  >
                     <MapPinIcon size="md" color="secondary" />
                     <Text style={styles.venueName}>{venue?.name || 'Unknown Venue'}</Text>
-                  </View>
+                  </TouchableOpacity>
 
                   <View style={styles.dateSection}>
                     <CalendarIcon size="md" color="secondary" />
@@ -469,13 +823,135 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
                       <Text style={styles.concertNotes}>{concert.notes}</Text>
                     </View>
                   )}
+
+                  {isOwnConcert && (
+                    <View style={styles.ownerActions}>
+                      <IconButton
+                        icon={<EditIcon size="md" color="text" />}
+                        onPress={handleEditConcert}
+                        variant="ghost"
+                        size="md"
+                      />
+                      <IconButton
+                        icon={<TrashIcon size="md" color="error" />}
+                        onPress={handleDeleteConcert}
+                        loading={deletingConcert}
+                        variant="ghost"
+                        size="md"
+                      />
+                    </View>
+                  )}
                 </View>
               </LinearGradient>
             </Card>
           </View>
 
+          {/* Lineup */}
+          {concert.lineup && concert.lineup.length > 1 && (
+            <View style={styles.setlistSection}>
+              <Card variant="elevated" style={styles.setlistCard}>
+                <View style={styles.sectionHeader}>
+                  <UserIcon size="lg" color="primary" />
+                  <Text style={styles.sectionTitle}>Lineup</Text>
+                </View>
+                <LineupView lineup={concert.lineup} />
+              </Card>
+            </View>
+          )}
+
+          {/* Setlist */}
+          {concert.setlist && concert.setlist.length > 0 && (
+            <View style={styles.setlistSection}>
+              <Card variant="elevated" style={styles.setlistCard}>
+                <View style={styles.sectionHeader}>
+                  <MusicIcon size="lg" color="primary" />
+                  <Text style={styles.sectionTitle}>Setlist</Text>
+                </View>
+                <SetlistView setlist={concert.setlist} />
+              </Card>
+            </View>
+          )}
+
+          {/* Photos & Videos */}
+          {((concert.media && concert.media.length > 0) || isOwnConcert) && (
+            <View style={styles.setlistSection}>
+              <Card variant="elevated" style={styles.setlistCard}>
+                <View style={styles.sectionHeader}>
+                  <CameraIcon size="lg" color="primary" />
+                  <Text style={styles.sectionTitle}>Photos & Videos</Text>
+                </View>
+                {concert.media && concert.media.length > 0 && (
+                  <MediaGallery
+                    media={concert.media}
+                    thumbnails={concert.mediaThumbnails}
+                    onRemove={isOwnConcert
+                      ? (attachment) => handleRemoveMedia({ collection: 'concerts', id: concertId }, attachment)
+                      : undefined}
+                  />
+                )}
+                {isOwnConcert && (
+                  <Button
+                    title="Add Photos & Videos"
+                    onPress={handleAddConcertMedia}
+                    loading={uploadingMedia}
+                    variant="outline"
+                    size="sm"
+                    style={styles.addMediaButton}
+                  />
+                )}
+              </Card>
+            </View>
+          )}
+
+          {/* Who was there */}
+          {attendees.length > 1 && (
+            <View style={styles.setlistSection}>
+              <Card variant="elevated" style={styles.setlistCard}>
+                <View style={styles.sectionHeader}>
+                  <UserIcon size="lg" color="primary" />
+                  <Text style={styles.sectionTitle}>Who Was There ({attendees.length})</Text>
+                </View>
+                {attendees.map((attendee) => (
+                  <TouchableOpacity
+                    key={attendee.uid}
+                    style={styles.attendeeRow}
+                    onPress={() => navigation.navigate('UserProfile', { userId: attendee.uid })}
+                  >
+                    <UserIcon size="md" color="textSecondary" />
+                    <Text style={styles.attendeeName}>
+                      {attendee.displayName}
+                      {attendee.uid === user?.uid ? ' (you)' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </Card>
+            </View>
+          )}
+
+          {/* Your Review */}
+          {user && myReview && (
+            <View style={styles.reviewSection}>
+              <Card variant="elevated" style={styles.reviewSubmissionCard}>
+                <View style={styles.sectionHeader}>
+                  <MessageSquareIcon size="lg" color="primary" />
+                  <Text style={styles.sectionTitle}>Your Review</Text>
+                </View>
+                <Text style={styles.reviewText} numberOfLines={3}>{myReview.text}</Text>
+                <Button
+                  title="Edit Your Review"
+                  onPress={() => updateReviewState(myReview.id, { editingText: myReview.text })}
+                  disabled={myReview.editingText !== undefined}
+                  variant="outline"
+                  size="md"
+                  fullWidth
+                  style={styles.submitButton}
+                />
+              </Card>
+            </View>
+          )}
+
           {/* Review Submission */}
-          {user && (
+          {user && !myReview && (
             <View style={styles.reviewSection}>
               <Card variant="elevated" style={styles.reviewSubmissionCard}>
                 <View style={styles.sectionHeader}>
@@ -493,6 +969,15 @@ const ConcertDetailScreen: React.FC<Props> = ({ route }) => {
                   style={styles.reviewInput}
                 />
 
+                <Button
+                  title={reviewAssets.length > 0
+                    ? `${reviewAssets.length} attachment${reviewAssets.length === 1 ? '' : 's'} added`
+                    : 'Attach Photos or Videos'}
+                  onPress={handleAttachToReview}
+                  variant="ghost"
+                  size="sm"
+                />
+
                 <Button
                   title="Submit Review"
                   onPress={handleSubmitReview}
@@ -590,6 +1075,14 @@ const styles = StyleSheet.create({
   concertHeader: {
     alignItems: 'center',
   },
+  festivalName: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.surface,
+    textTransform: 'uppercase',
+    letterSpacing: theme.typography.letterSpacing.wide,
+    marginBottom: theme.spacing.xs,
+  },
   artistSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -647,6 +1140,35 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  ownerActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.md,
+  },
+  setlistSection: {
+    marginBottom: theme.spacing.xl,
+  },
+  setlistCard: {
+    padding: theme.spacing.lg,
+  },
+  addMediaButton: {
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.md,
+  },
+  reviewMedia: {
+    marginBottom: theme.spacing.md,
+  },
+  attendeeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  attendeeName: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+  },
   reviewSection: {
     marginBottom: theme.spacing.xl,
   },
@@ -800,6 +1322,14 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     lineHeight: theme.typography.lineHeight.normal,
   },
+  editContainer: {
+    marginBottom: theme.spacing.sm,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+  },
   addComment: {
     marginTop: theme.spacing.md,
   },
@@ -0,0 +1,184 @@
+import React, { useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import { deleteAccount } from '../services/authService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { Button, Input, Card, LockIcon, TrashIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type DeleteAccountNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const DeleteAccountScreen: React.FC = () => {
+  const navigation = useNavigation<DeleteAccountNavigationProp>();
+  const { user, setUser } = useContext(AuthContext);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [deleting, setDeleting] = useState(false);
+
+  const handleDelete = () => {
+    if (!password) {
+      setPasswordError('Enter your password to confirm');
+      return;
+    }
+
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your profile, concerts, reviews, comments, likes and follows. It cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              await deleteAccount(password);
+              setUser(null);
+            } catch (error: any) {
+              // Safe to try again: the backend picks up wherever the last attempt stopped
+              setPasswordError(error.message);
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {/* Header Section */}
+          <View style={styles.header}>
+            <TrashIcon size="lg" color="error" />
+            <Text style={styles.title}>Delete Account</Text>
+            <Text style={styles.subtitle}>{user?.email}</Text>
+          </View>
+
+          <Card variant="outlined" style={styles.card}>
+            <Text style={styles.warningTitle}>What gets deleted</Text>
+            <Text style={styles.warningText}>
+              • Your profile and sign-in{'\n'}
+              • Every concert you've logged, with its photos and videos{'\n'}
+              • Your reviews, and the likes and comments on them{'\n'}
+              • Comments and likes you left on other people's reviews{'\n'}
+              • Who you follow and who follows you{'\n'}
+              • Your upcoming shows and ticket details
+            </Text>
+            <Text style={styles.hint}>
+              Want a copy first? Use "Download My Data" on your profile before continuing.
+            </Text>
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Input
+              label="Confirm Password"
+              placeholder="Enter your password"
+              value={password}
+              onChangeText={(text) => {
+                setPassword(text);
+                setPasswordError('');
+              }}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              error={passwordError}
+              leftIcon={<LockIcon size="md" color="textSecondary" />}
+            />
+
+            <Button
+              title="Delete My Account"
+              onPress={handleDelete}
+              loading={deleting}
+              variant="outline"
+              size="lg"
+              fullWidth
+              style={styles.deleteButton}
+            />
+            <Button
+              title="Cancel"
+              onPress={() => navigation.goBack()}
+              disabled={deleting}
+              variant="ghost"
+              size="md"
+              fullWidth
+            />
+          </Card>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  warningTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+  },
+  warningText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    lineHeight: 24,
+    marginBottom: theme.spacing.md,
+  },
+  hint: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  deleteButton: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+});
+
+export default DeleteAccountScreen;
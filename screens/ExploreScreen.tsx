@@ -21,9 +21,10 @@ import {
 import { getArtistByRef, getVenueByRef } from '../services/concertService';
 import { showErrorToast, showInfoToast } from '../components/Toast';
 import { logAnalyticsEvent } from '../services/analyticsService';
-import { RootStackParamList, Concert, Artist, Venue } from '../types';
+import { RootStackParamList, Concert, Artist, Venue, RatingStats } from '../types';
 import { Input, Card, Button, IconButton, SearchIcon, MusicIcon, MapPinIcon, StarIcon, TrendingUpIcon, UsersIcon, XIcon } from '../components/ui';
 import { theme } from '../types/theme';
+import { formatVenueLocation } from '../utils/venue';
 
 type ExploreScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -126,12 +127,29 @@ const ExploreScreen: React.FC = () => {
     return stars;
   };
 
+  // Community average from the ratingStats aggregate, e.g. "4.3 · 12 ratings"
+  const renderAverageRating = (stats?: RatingStats) => {
+    if (!stats || stats.count === 0) return null;
+
+    return (
+      <View style={styles.detailRow}>
+        <StarIcon size="sm" color="warning" />
+        <Text style={styles.detailText}>
+          {stats.average.toFixed(1)} · {stats.count} {stats.count === 1 ? 'rating' : 'ratings'}
+        </Text>
+      </View>
+    );
+  };
+
   const renderSearchResult = (result: SearchResult) => {
     const handlePress = () => {
       if (result.type === 'concert') {
         navigation.navigate('ConcertDetail', { concertId: (result.data as Concert).id });
+      } else if (result.type === 'artist') {
+        navigation.navigate('ArtistDetail', { artistId: (result.data as Artist).id });
+      } else {
+        navigation.navigate('VenueDetail', { venueId: (result.data as Venue).id });
       }
-      // For now, artists and venues don't have detail screens
     };
 
     const getIcon = () => {
@@ -177,7 +195,9 @@ const ExploreScreen: React.FC = () => {
         </View>
 
         <Text style={styles.resultName}>
-          {(result.data as any).name || 'Unknown'}
+          {result.type === 'concert'
+            ? (result.data as Concert).festivalName || (result.data as Concert).artistName || 'Unknown'
+            : (result.data as any).name || 'Unknown'}
         </Text>
 
         {result.type === 'concert' && (
@@ -185,7 +205,7 @@ const ExploreScreen: React.FC = () => {
             <View style={styles.detailRow}>
               <MapPinIcon size="sm" color="textSecondary" />
               <Text style={styles.detailText}>
-                {'Unknown Venue'}
+                {(result.data as Concert).venueName || 'Unknown Venue'}
               </Text>
             </View>
             <View style={styles.ratingContainer}>
@@ -207,10 +227,12 @@ const ExploreScreen: React.FC = () => {
           <View style={styles.detailRow}>
             <MapPinIcon size="sm" color="textSecondary" />
             <Text style={styles.detailText}>
-              {(result.data as Venue).city}, {(result.data as Venue).state}
+              {formatVenueLocation(result.data as Venue) || 'Location unknown'}
             </Text>
           </View>
         )}
+
+        {result.type !== 'concert' && renderAverageRating((result.data as Artist | Venue).ratingStats)}
       </Card>
     );
   };
@@ -238,7 +260,12 @@ const ExploreScreen: React.FC = () => {
   );
 
   const renderPopularArtist = (artist: Artist) => (
-    <Card key={artist.id} variant="outlined" style={styles.artistCard}>
+    <Card
+      key={artist.id}
+      variant="outlined"
+      style={styles.artistCard}
+      onPress={() => navigation.navigate('ArtistDetail', { artistId: artist.id })}
+    >
       <View style={styles.cardHeader}>
         <MusicIcon size="md" color="secondary" />
         <Text style={styles.cardBadge}>Popular</Text>
@@ -250,6 +277,7 @@ const ExploreScreen: React.FC = () => {
           {artist.genre?.join(', ') || 'Genre unknown'}
         </Text>
       </View>
+      {renderAverageRating(artist.ratingStats)}
     </Card>
   );
 
@@ -1,20 +1,31 @@
-import React, { useContext, useEffect, useState } from 'react';
+import React, { useContext, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  ScrollView,
+  FlatList,
   RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { AuthContext } from '../context/AuthContext';
-import { getFeedActivities } from '../services/feedService';
-import { RootStackParamList } from '../types';
+import {
+  getFeedPage,
+  getNewerFeedItems,
+  subscribeToNewFeedItems,
+  feedItemTargetExists,
+  FeedCursor,
+  FeedPage,
+} from '../services/feedService';
+import { FeedItem, RootStackParamList } from '../types';
 import { Card, Button, IconButton, MusicIcon, MessageSquareIcon, MailIcon, ClockIcon, ChevronRightIcon } from '../components/ui';
 import { theme } from '../types/theme';
+import { formatTimeAgo } from '../utils/time';
 
 type FeedScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs'>;
 type FeedScreenRouteProp = RouteProp<RootStackParamList, 'MainTabs'>;
@@ -24,24 +35,18 @@ interface Props {
   route: FeedScreenRouteProp;
 }
 
-interface FeedItem {
-  id: string;
-  type: 'concert_logged' | 'review_posted';
-  userId: string;
-  userDisplayName: string;
-  concertId: string;
-  concertName: string;
-  artistName: string;
-  venueName: string;
-  reviewId?: string;
-  timestamp: Date;
-}
-
 const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
   const { user } = useContext(AuthContext);
   const [feedItems, setFeedItems] = useState<FeedItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Ends of what's loaded: refresh asks for entries newer than newest, scrolling for older than
+  // oldest. Newest is state because the new posts listener restarts whenever it moves.
+  const [newestCursor, setNewestCursor] = useState<FeedCursor | null>(null);
+  const oldestCursor = useRef<FeedCursor | null>(null);
+  const [newPosts, setNewPosts] = useState({ count: 0, hasMore: false });
 
   useEffect(() => {
     if (user) {
@@ -49,13 +54,37 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
     }
   }, [user]);
 
+  // Count what's arrived since the top of the feed was loaded, for the new posts banner
+  useEffect(() => {
+    if (!user || loading) return;
+
+    setNewPosts({ count: 0, hasMore: false });
+    return subscribeToNewFeedItems(user.uid, newestCursor, (count, hasMore) => setNewPosts({ count, hasMore }));
+  }, [user, loading, newestCursor]);
+
+  // Replace everything loaded with the given page
+  const resetFeed = (page: FeedPage) => {
+    setFeedItems(page.items);
+    setNewestCursor(page.newest);
+    oldestCursor.current = page.oldest;
+    setHasMore(page.hasMore);
+  };
+
+  // Add entries to one end of the feed, skipping any already shown
+  const mergeItems = (items: FeedItem[], position: 'start' | 'end') => {
+    setFeedItems((prevItems) => {
+      const loadedIds = new Set(prevItems.map((item) => item.id));
+      const newItems = items.filter((item) => !loadedIds.has(item.id));
+      return position === 'start' ? [...newItems, ...prevItems] : [...prevItems, ...newItems];
+    });
+  };
+
   const loadFeed = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
-      const activities = await getFeedActivities(user.uid);
-      setFeedItems(activities);
+      resetFeed(await getFeedPage(user.uid));
     } catch (error) {
       console.error('Error loading feed:', error);
     } finally {
@@ -63,14 +92,64 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
     }
   };
 
+  // Pull-to-refresh only fetches what's newer than the top of the feed
   const handleRefresh = async () => {
+    if (!user) return;
+
     setRefreshing(true);
-    await loadFeed();
-    setRefreshing(false);
+    try {
+      if (!newestCursor) {
+        resetFeed(await getFeedPage(user.uid));
+        return;
+      }
+
+      const page = await getNewerFeedItems(user.uid, newestCursor);
+      if (page.hasMore) {
+        // Too much is new to join up with what's loaded, so start over from the top
+        resetFeed(page);
+      } else if (page.newest) {
+        mergeItems(page.items, 'start');
+        setNewestCursor(page.newest);
+      }
+    } catch (error) {
+      console.error('Error refreshing feed:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const newPostsLabel = `${newPosts.count}${newPosts.hasMore ? '+' : ''} new ${newPosts.count === 1 ? 'post' : 'posts'}`;
+
+  const handleLoadMore = async () => {
+    if (!user || loading || loadingMore || !hasMore || !oldestCursor.current) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getFeedPage(user.uid, oldestCursor.current);
+      mergeItems(page.items, 'end');
+      oldestCursor.current = page.oldest || oldestCursor.current;
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more feed items:', error);
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
   const renderFeedItem = (item: FeedItem) => {
-    const handlePress = () => {
+    const handlePress = async () => {
+      try {
+        // Deleted since this page was loaded: drop it rather than open a missing concert
+        if (!(await feedItemTargetExists(item))) {
+          setFeedItems((prevItems) => prevItems.filter((other) => other.id !== item.id));
+          Alert.alert('No Longer Available', `This ${item.reviewId ? 'review' : 'concert'} has been deleted.`);
+          return;
+        }
+      } catch (error) {
+        // Can't tell right now; the detail screen handles a missing concert itself
+        console.error('Error checking feed item:', error);
+      }
+
       navigation?.navigate('ConcertDetail', { concertId: item.concertId });
     };
 
@@ -89,16 +168,6 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
       return `${item.artistName} at ${item.venueName}`;
     };
 
-    const getTimeAgo = (timestamp: Date) => {
-      const now = new Date();
-      const diffInSeconds = Math.floor((now.getTime() - timestamp.getTime()) / 1000);
-
-      if (diffInSeconds < 60) return 'Just now';
-      if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
-      if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
-      return `${Math.floor(diffInSeconds / 86400)}d ago`;
-    };
-
     const getActivityIcon = () => {
       switch (item.type) {
         case 'concert_logged':
@@ -143,7 +212,7 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
             <View style={styles.timestampRow}>
               <ClockIcon size="sm" color="textSecondary" />
               <Text style={styles.timestamp}>
-                {getTimeAgo(item.timestamp)}
+                {formatTimeAgo(item.timestamp)}
               </Text>
             </View>
           </View>
@@ -180,9 +249,16 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
         colors={[theme.colors.background, theme.colors.surfaceVariant]}
         style={styles.gradient}
       >
-        <ScrollView
+        <FlatList
+          data={feedItems}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => renderFeedItem(item)}
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          // Entries added above keep whatever the user is reading in place
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -191,14 +267,13 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
               colors={[theme.colors.primary]}
             />
           }
-        >
-          {/* Header */}
-          <View style={styles.header}>
-            <Text style={styles.title}>Activity Feed</Text>
-            <Text style={styles.subtitle}>See what your friends are up to</Text>
-          </View>
-
-          {feedItems.length === 0 ? (
+          ListHeaderComponent={
+            <View style={styles.header}>
+              <Text style={styles.title}>Activity Feed</Text>
+              <Text style={styles.subtitle}>See what your friends are up to</Text>
+            </View>
+          }
+          ListEmptyComponent={
             <Card variant="outlined" style={styles.emptyState}>
               <MailIcon size="xl" color="textSecondary" />
               <Text style={styles.emptyTitle}>No activity yet</Text>
@@ -217,12 +292,19 @@ const FeedScreen: React.FC<Partial<Props>> = ({ navigation }) => {
                 style={styles.emptyActionButton}
               />
             </Card>
-          ) : (
-            <View style={styles.feedList}>
-              {feedItems.map(renderFeedItem)}
-            </View>
-          )}
-        </ScrollView>
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator color={theme.colors.primary} style={styles.loadingMore} />
+            ) : null
+          }
+        />
+
+        {newPosts.count > 0 && !refreshing && (
+          <TouchableOpacity style={styles.newPostsBanner} onPress={handleRefresh}>
+            <Text style={styles.newPostsText}>{newPostsLabel}</Text>
+          </TouchableOpacity>
+        )}
       </LinearGradient>
     </SafeAreaView>
   );
@@ -274,8 +356,23 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500' as any,
   },
-  feedList: {
-    gap: theme.spacing.md,
+  loadingMore: {
+    marginVertical: theme.spacing.md,
+  },
+  newPostsBanner: {
+    position: 'absolute',
+    top: theme.spacing.md,
+    alignSelf: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary,
+    ...theme.shadows.md,
+  },
+  newPostsText: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600' as any,
+    color: theme.colors.surface,
   },
   feedCard: {
     marginBottom: theme.spacing.md,
@@ -1,4 +1,4 @@
-import React, { useContext, useEffect, useState } from 'react';
+import React, { useCallback, useContext, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,15 +10,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useNavigation } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { AuthContext } from '../context/AuthContext';
 import { signOutUser } from '../services/authService';
 import { doc, getDoc, setDoc, Firestore } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
+import { getShowsReadyToLog } from '../services/upcomingService';
+import { announceNewAchievements } from '../services/achievementService';
 import { Button, Card, IconButton, MusicIcon, HeartIcon, StarIcon } from '../components/ui';
 import { theme } from '../types/theme';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { UpcomingShow } from '../types';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -34,6 +37,11 @@ const HomeScreen: React.FC = () => {
   const { user, setUser } = useContext(AuthContext);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [readyToLog, setReadyToLog] = useState<UpcomingShow[]>([]);
+
+  const today = new Date();
+  const isRecapSeason = today.getMonth() === 11 || today.getMonth() === 0;
+  const recapYear = today.getMonth() === 0 ? today.getFullYear() - 1 : today.getFullYear();
 
   useEffect(() => {
     const fetchUserProfile = async () => {
@@ -86,6 +94,22 @@ const HomeScreen: React.FC = () => {
     fetchUserProfile();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    getShowsReadyToLog(user.uid)
+      .then(setReadyToLog)
+      .catch((error) => console.error('Error loading shows ready to log:', error));
+  }, [user]);
+
+  // Badges are awarded by Cloud Functions after a concert or review is saved,
+  // so check for new ones whenever the user comes back here
+  useFocusEffect(
+    useCallback(() => {
+      if (user) announceNewAchievements(user.uid);
+    }, [user])
+  );
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -174,11 +198,61 @@ const HomeScreen: React.FC = () => {
                   <Text style={styles.statsSubtext}>
                     Keep the music memories alive!
                   </Text>
+                  <Button
+                    title="See Your Stats"
+                    onPress={() => navigation.navigate('Stats')}
+                    variant="ghost"
+                    size="sm"
+                  />
                 </View>
               </LinearGradient>
             </Card>
           </View>
 
+          {/* Shows that just happened */}
+          {readyToLog.length > 0 && (
+            <View style={styles.statsSection}>
+              <Card variant="outlined" style={styles.actionCard}>
+                <Text style={styles.sectionTitle}>How was {readyToLog[0].artistName}?</Text>
+                <Text style={styles.actionDescription}>
+                  {readyToLog.length > 1
+                    ? `You have ${readyToLog.length} shows waiting to be logged`
+                    : `${readyToLog[0].venueName} · ${readyToLog[0].date.toLocaleDateString()}`}
+                </Text>
+                <Button
+                  title={readyToLog.length > 1 ? 'Review Shows' : 'Log It'}
+                  onPress={() => (readyToLog.length > 1
+                    ? navigation.navigate('UpcomingShows')
+                    : navigation.navigate('LogConcert', { upcomingShowId: readyToLog[0].id }))}
+                  variant="gradient"
+                  size="md"
+                  fullWidth
+                  style={styles.actionButton}
+                />
+              </Card>
+            </View>
+          )}
+
+          {/* Recap season: December, and January for anyone who missed it */}
+          {isRecapSeason && (userProfile?.loggedConcertsCount || 0) > 0 && (
+            <View style={styles.statsSection}>
+              <Card variant="outlined" style={styles.actionCard}>
+                <Text style={styles.sectionTitle}>Your {recapYear} in Live Music</Text>
+                <Text style={styles.actionDescription}>
+                  Relive the year's shows and share your recap
+                </Text>
+                <Button
+                  title="See Your Year in Review"
+                  onPress={() => navigation.navigate('YearInReview', { year: recapYear })}
+                  variant="gradient"
+                  size="md"
+                  fullWidth
+                  style={styles.actionButton}
+                />
+              </Card>
+            </View>
+          )}
+
           {/* Quick Actions Section */}
           <View style={styles.actionsSection}>
             <Text style={styles.sectionTitle}>Quick Actions</Text>
@@ -213,6 +287,20 @@ const HomeScreen: React.FC = () => {
                 </Text>
               </Card>
 
+              <Card variant="outlined" style={styles.actionCard}>
+                <Button
+                  title="Upcoming Shows"
+                  onPress={() => navigation.navigate('UpcomingShows')}
+                  variant="ghost"
+                  size="lg"
+                  fullWidth
+                  style={styles.actionButton}
+                />
+                <Text style={styles.actionDescription}>
+                  Track tickets for shows you're going to
+                </Text>
+              </Card>
+
               <Card variant="outlined" style={styles.actionCard}>
                 <Button
                   title="My Profile"
@@ -0,0 +1,331 @@
+import React, { useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import { importConcerts } from '../services/importService';
+import { detectImportFormat, parseConcertImport, IMPORT_CSV_TEMPLATE } from '../utils/concertImport';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { ConcertImportFormat, ConcertImportRow } from '../types';
+import { Button, Input, Card, Chip, MusicIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type ImportConcertsNavigationProp = StackNavigationProp<RootStackParamList>;
+
+// Only the first rows are rendered in the preview; big histories would otherwise stall the list
+const PREVIEW_LIMIT = 50;
+
+const ImportConcertsScreen: React.FC = () => {
+  const navigation = useNavigation<ImportConcertsNavigationProp>();
+  const { user } = useContext(AuthContext);
+
+  const [format, setFormat] = useState<ConcertImportFormat>('csv');
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ConcertImportRow[] | null>(null);
+  const [parseError, setParseError] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState('');
+
+  const preview = (text: string, importFormat: ConcertImportFormat) => {
+    try {
+      setRows(parseConcertImport(text, importFormat));
+      setParseError('');
+    } catch (error: any) {
+      setRows(null);
+      setParseError(error.message || 'Could not read this file');
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const text = await new File(asset.uri).text();
+      const detectedFormat = detectImportFormat(text, asset.name);
+
+      setFileName(asset.name);
+      setFormat(detectedFormat);
+      setPastedText('');
+      preview(text, detectedFormat);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to open file');
+    }
+  };
+
+  const handlePreviewPasted = () => {
+    setFileName('');
+    preview(pastedText, format);
+  };
+
+  const validRows = rows?.filter((row) => row.concert) || [];
+  const invalidCount = (rows?.length || 0) - validRows.length;
+
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const result = await importConcerts(
+        user.uid,
+        validRows.map((row) => row.concert!),
+        format,
+        (processed, total) => setProgress(`${processed} of ${total}`)
+      );
+
+      const skippedMessage = result.skipped > 0
+        ? `\n${result.skipped} already in your history ${result.skipped === 1 ? 'was' : 'were'} skipped.`
+        : '';
+      Alert.alert(
+        'Import Complete',
+        `Imported ${result.imported} concert${result.imported === 1 ? '' : 's'}.${skippedMessage}`,
+        [{ text: 'View My Profile', onPress: () => navigation.navigate('UserProfile', { userId: user.uid }) }]
+      );
+      setRows(null);
+      setPastedText('');
+      setFileName('');
+    } catch (error: any) {
+      // Batches that committed before the failure stay imported; re-running skips them
+      Alert.alert('Import Failed', `${error.message || 'Please try again'}\nRe-run the import to pick up where it stopped.`);
+    } finally {
+      setImporting(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <MusicIcon size="lg" color="primary" />
+            <Text style={styles.title}>Import Concerts</Text>
+            <Text style={styles.subtitle}>Bring your concert history over from a spreadsheet</Text>
+          </View>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>From a File</Text>
+            <Text style={styles.hint}>
+              CSV with a header row of artist, venue, city, date, rating, notes — or a JSON array of objects
+              with the same keys. Dates as YYYY-MM-DD, ratings 1 to 5.
+            </Text>
+            <Text style={styles.template}>{IMPORT_CSV_TEMPLATE}</Text>
+            <Button
+              title={fileName ? `Chosen: ${fileName}` : 'Choose File'}
+              onPress={handlePickFile}
+              variant="outline"
+              size="md"
+              fullWidth
+              disabled={importing}
+            />
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>Or Paste It</Text>
+            <View style={styles.chipRow}>
+              <Chip label="CSV" active={format === 'csv'} onPress={() => setFormat('csv')} />
+              <Chip label="JSON" active={format === 'json'} onPress={() => setFormat('json')} />
+            </View>
+            <Input
+              placeholder={format === 'csv' ? 'artist,venue,city,date,rating,notes' : '[{ "artist": "...", "venue": "..." }]'}
+              value={pastedText}
+              onChangeText={setPastedText}
+              multiline
+              numberOfLines={6}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Button
+              title="Preview"
+              onPress={handlePreviewPasted}
+              variant="ghost"
+              size="md"
+              fullWidth
+              disabled={!pastedText.trim() || importing}
+            />
+          </Card>
+
+          {parseError ? <Text style={styles.errorText}>{parseError}</Text> : null}
+
+          {/* Preview */}
+          {rows && (
+            <Card variant="outlined" style={styles.card}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <Text style={styles.summary}>
+                {validRows.length} ready to import
+                {invalidCount > 0 ? ` · ${invalidCount} with problems (will be skipped)` : ''}
+              </Text>
+
+              {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                <View key={row.line} style={styles.previewRow}>
+                  <Text style={styles.lineNumber}>{row.line}</Text>
+                  <View style={styles.previewInfo}>
+                    {row.concert ? (
+                      <>
+                        <Text style={styles.previewTitle}>{row.concert.artistName}</Text>
+                        <Text style={styles.previewDetail}>
+                          {row.concert.venueName}
+                          {row.concert.venueDetails?.city ? `, ${row.concert.venueDetails.city}` : ''}
+                          {' · '}
+                          {row.concert.date.toLocaleDateString()}
+                          {' · '}
+                          {'★'.repeat(row.concert.rating)}
+                        </Text>
+                      </>
+                    ) : (
+                      row.errors.map((error) => (
+                        <Text key={error} style={styles.rowError}>{error}</Text>
+                      ))
+                    )}
+                  </View>
+                </View>
+              ))}
+              {rows.length > PREVIEW_LIMIT && (
+                <Text style={styles.hint}>…and {rows.length - PREVIEW_LIMIT} more rows</Text>
+              )}
+
+              <Button
+                title={importing
+                  ? `Importing ${progress}`
+                  : `Import ${validRows.length} Concert${validRows.length === 1 ? '' : 's'}`}
+                onPress={handleImport}
+                loading={importing}
+                disabled={validRows.length === 0}
+                variant="gradient"
+                size="lg"
+                fullWidth
+                style={styles.importButton}
+              />
+            </Card>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  hint: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  template: {
+    fontSize: theme.typography.fontSize.xs,
+    fontFamily: 'monospace',
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: theme.borderRadius.sm,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  errorText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+    textAlign: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  summary: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.fontWeight.medium as any,
+    marginBottom: theme.spacing.md,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  lineNumber: {
+    width: 36,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+  },
+  previewDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  rowError: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.error,
+  },
+  importButton: {
+    marginTop: theme.spacing.lg,
+  },
+});
+
+export default ImportConcertsScreen;
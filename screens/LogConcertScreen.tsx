@@ -1,4 +1,4 @@
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useEffect } from 'react';
 import {
   View,
   Text,
@@ -11,15 +11,21 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { AuthContext } from '../context/AuthContext';
-import { logConcert } from '../services/concertService';
+import { logConcert, updateConcert, getConcertById, getArtistByRef, getVenueByRef } from '../services/concertService';
+import { getUpcomingShowById, markUpcomingShowLogged } from '../services/upcomingService';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { Button, Input, Card, MusicIcon, MapPinIcon, CalendarIcon, StarIcon, MessageSquareIcon } from '../components/ui';
+import { SetlistSong, LineupActFormData, LogConcertFormData, VenueDetails } from '../types';
+import { SetlistEditor } from '../components/SetlistEditor';
+import { LineupEditor, isValidSetTime } from '../components/LineupEditor';
+import { VenuePicker } from '../components/VenuePicker';
+import { Button, Input, Card, Chip, MusicIcon, CalendarIcon, StarIcon, MessageSquareIcon } from '../components/ui';
 import { theme } from '../types/theme';
 
 type LogConcertScreenNavigationProp = StackNavigationProp<RootStackParamList>;
+type LogConcertScreenRouteProp = RouteProp<RootStackParamList, 'LogConcert'>;
 
 const StarRating: React.FC<{
   rating: number;
@@ -47,19 +53,93 @@ const StarRating: React.FC<{
 
 const LogConcertScreen: React.FC = () => {
   const navigation = useNavigation<LogConcertScreenNavigationProp>();
+  const route = useRoute<LogConcertScreenRouteProp>();
+  const concertId = route.params?.concertId;
+  const upcomingShowId = route.params?.upcomingShowId;
+  const isEditing = !!concertId;
   const { user } = useContext(AuthContext);
   const [artistName, setArtistName] = useState('');
   const [venueName, setVenueName] = useState('');
+  const [venueDetails, setVenueDetails] = useState<VenueDetails | undefined>();
   const [date, setDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [rating, setRating] = useState(0);
   const [notes, setNotes] = useState('');
+  const [setlist, setSetlist] = useState<SetlistSong[]>([]);
+  const [lineup, setLineup] = useState<LineupActFormData[]>([]);
+  const [isFestival, setIsFestival] = useState(false);
+  const [festivalName, setFestivalName] = useState('');
   const [loading, setLoading] = useState(false);
+  const [loadingConcert, setLoadingConcert] = useState(isEditing);
 
   const [artistError, setArtistError] = useState('');
   const [venueError, setVenueError] = useState('');
   const [ratingError, setRatingError] = useState('');
   const [dateError, setDateError] = useState('');
+  const [lineupError, setLineupError] = useState('');
+
+  useEffect(() => {
+    if (!concertId) return;
+
+    const loadConcert = async () => {
+      try {
+        const concert = await getConcertById(concertId);
+        if (!concert) {
+          Alert.alert('Error', 'Concert not found');
+          navigation.goBack();
+          return;
+        }
+
+        const [artist, venue] = await Promise.all([
+          getArtistByRef(concert.artistRef),
+          getVenueByRef(concert.venueRef),
+        ]);
+
+        setArtistName(artist?.name || concert.artistName || '');
+        setVenueName(venue?.name || concert.venueName || '');
+        setDate(concert.date);
+        setRating(concert.rating);
+        setNotes(concert.notes || '');
+        setSetlist(concert.setlist || []);
+        setLineup(
+          (concert.lineup || [])
+            .filter((act) => act.role !== 'headliner')
+            .map(({ artistName: actName, role, stage, setTime, rating: actRating }) => ({
+              artistName: actName,
+              role: role as LineupActFormData['role'],
+              stage,
+              setTime,
+              rating: actRating,
+            }))
+        );
+        setIsFestival(!!concert.festivalName);
+        setFestivalName(concert.festivalName || '');
+      } catch (error) {
+        console.error('Error loading concert for editing:', error);
+        Alert.alert('Error', 'Failed to load concert details');
+      } finally {
+        setLoadingConcert(false);
+      }
+    };
+
+    loadConcert();
+  }, [concertId]);
+
+  // Logging a show from the wishlist: start from what the user saved before going
+  useEffect(() => {
+    if (!upcomingShowId || concertId) return;
+
+    getUpcomingShowById(upcomingShowId)
+      .then((show) => {
+        if (!show) return;
+        setArtistName(show.artistName);
+        setVenueName(show.venueName);
+        setDate(show.date);
+        setIsFestival(!!show.festivalName);
+        setFestivalName(show.festivalName || '');
+      })
+      .catch((error) => console.error('Error loading upcoming show:', error));
+  }, [upcomingShowId, concertId]);
 
   const handleDateChange = (event: any, selectedDate?: Date) => {
     const currentDate = selectedDate || date;
@@ -99,9 +179,31 @@ const LogConcertScreen: React.FC = () => {
       setDateError('');
     }
 
+    if (isFestival && !festivalName.trim()) {
+      setLineupError('Festival name is required');
+      isValid = false;
+    } else if (lineup.some((act) => !isValidSetTime(act.setTime))) {
+      setLineupError('Set times must use 24h HH:MM');
+      isValid = false;
+    } else {
+      setLineupError('');
+    }
+
     return isValid;
   };
 
+  const buildFormData = (): LogConcertFormData => ({
+    artistName: artistName.trim(),
+    venueName: venueName.trim(),
+    venueDetails,
+    date,
+    rating,
+    notes: notes.trim(),
+    setlist,
+    lineup: lineup.filter((act) => act.artistName.trim()),
+    festivalName: isFestival ? festivalName.trim() : '',
+  });
+
   const handleSubmit = async () => {
     if (!user) {
       Alert.alert('Error', 'You must be logged in to log a concert');
@@ -112,9 +214,17 @@ const LogConcertScreen: React.FC = () => {
       return;
     }
 
+    if (concertId) {
+      await handleUpdate(concertId);
+      return;
+    }
+
     setLoading(true);
     try {
-      await logConcert(user.uid, artistName.trim(), venueName.trim(), date, rating, notes.trim());
+      const newConcertId = await logConcert(user.uid, buildFormData());
+      if (upcomingShowId) {
+        await markUpcomingShowLogged(upcomingShowId, newConcertId);
+      }
       Alert.alert(
         '🎉 Success!',
         'Your concert memory has been saved!',
@@ -136,6 +246,42 @@ const LogConcertScreen: React.FC = () => {
     }
   };
 
+  const handleUpdate = async (id: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      await updateConcert(id, user.uid, buildFormData());
+      Alert.alert(
+        'Concert Updated',
+        'Your changes have been saved.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Failed to Update Concert', error.message || 'Please try again');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loadingConcert) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LinearGradient
+          colors={[theme.colors.background, theme.colors.surfaceVariant]}
+          style={styles.gradient}
+        >
+          <View style={styles.centerContainer}>
+            <Card variant="elevated" style={styles.loadingCard}>
+              <MusicIcon size="xl" color="primary" />
+              <Text style={styles.loadingText}>Loading concert...</Text>
+            </Card>
+          </View>
+        </LinearGradient>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <LinearGradient
@@ -150,8 +296,10 @@ const LogConcertScreen: React.FC = () => {
           <View style={styles.header}>
             <View style={styles.titleContainer}>
               <MusicIcon size="lg" color="primary" />
-              <Text style={styles.title}>Log a Concert</Text>
-              <Text style={styles.subtitle}>Capture your live music experience</Text>
+              <Text style={styles.title}>{isEditing ? 'Edit Concert' : 'Log a Concert'}</Text>
+              <Text style={styles.subtitle}>
+                {isEditing ? 'Fix the details of this show' : 'Capture your live music experience'}
+              </Text>
             </View>
           </View>
 
@@ -159,7 +307,7 @@ const LogConcertScreen: React.FC = () => {
           <View style={styles.form}>
             <Card variant="elevated" style={styles.formCard}>
               <Input
-                label="Artist Name"
+                label={lineup.length > 0 || isFestival ? 'Headliner' : 'Artist Name'}
                 placeholder="Who did you see perform?"
                 value={artistName}
                 onChangeText={(text) => {
@@ -171,19 +319,43 @@ const LogConcertScreen: React.FC = () => {
                 autoCapitalize="words"
               />
 
-              <Input
-                label="Venue Name"
-                placeholder="Where was the concert?"
-                value={venueName}
-                onChangeText={(text) => {
-                  setVenueName(text);
+              <VenuePicker
+                venueName={venueName}
+                venueDetails={venueDetails}
+                onChange={(name, details) => {
+                  setVenueName(name);
+                  setVenueDetails(details);
                   setVenueError('');
                 }}
                 error={venueError}
-                leftIcon={<MapPinIcon size="md" color="textSecondary" />}
-                autoCapitalize="words"
               />
 
+              <Text style={styles.sectionTitle}>Who else was on the bill?</Text>
+              <View style={styles.festivalToggle}>
+                <Chip
+                  label="Festival"
+                  active={isFestival}
+                  onPress={() => {
+                    setIsFestival(!isFestival);
+                    setLineupError('');
+                  }}
+                />
+              </View>
+              {isFestival && (
+                <Input
+                  label="Festival Name"
+                  placeholder="Which festival was it?"
+                  value={festivalName}
+                  onChangeText={(text) => {
+                    setFestivalName(text);
+                    setLineupError('');
+                  }}
+                  autoCapitalize="words"
+                />
+              )}
+              <LineupEditor acts={lineup} onChange={setLineup} isFestival={isFestival} />
+              {lineupError ? <Text style={styles.dateError}>{lineupError}</Text> : null}
+
               <Text style={styles.sectionTitle}>When was the concert?</Text>
               <TouchableOpacity
                 style={styles.dateButton}
@@ -236,8 +408,14 @@ const LogConcertScreen: React.FC = () => {
                 style={styles.notesInput}
               />
 
+              <Text style={styles.sectionTitle}>Setlist</Text>
+              <Text style={styles.sectionHint}>
+                Add songs in the order they were played. Mark covers, segues and tape intros as you go.
+              </Text>
+              <SetlistEditor setlist={setlist} onChange={setSetlist} />
+
               <Button
-                title="Save Concert Memory"
+                title={isEditing ? 'Save Changes' : 'Save Concert Memory'}
                 onPress={handleSubmit}
                 loading={loading}
                 variant="gradient"
@@ -261,6 +439,22 @@ const styles = StyleSheet.create({
   gradient: {
     flex: 1,
   },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  loadingCard: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  loadingText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+    textAlign: 'center',
+  },
   scrollContent: {
     flexGrow: 1,
     padding: theme.spacing.lg,
@@ -299,6 +493,16 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     marginTop: theme.spacing.lg,
   },
+  festivalToggle: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.md,
+  },
+  sectionHint: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: -theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
   dateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,248 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationPreferences,
+  saveNotificationPreferences,
+} from '../services/pushService';
+import { NotificationPreferences, RootStackParamList } from '../types';
+import { Button, Card, BellIcon, ChevronUpIcon, ChevronDownIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type NotificationSettingsNavigationProp = StackNavigationProp<RootStackParamList, 'NotificationSettings'>;
+
+type PushToggle = 'follows' | 'likes' | 'comments' | 'friendShows';
+
+const PUSH_TOGGLES: { key: PushToggle; label: string; description: string }[] = [
+  { key: 'follows', label: 'New followers', description: 'When someone starts following you' },
+  { key: 'likes', label: 'Likes', description: 'When someone likes one of your reviews' },
+  { key: 'comments', label: 'Comments', description: 'When someone comments on one of your reviews' },
+  { key: 'friendShows', label: 'Friends at your shows', description: 'When someone you follow logs a show you were at' },
+];
+
+// 0 -> "12 AM", 13 -> "1 PM"
+const formatHour = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+
+const NotificationSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<NotificationSettingsNavigationProp>();
+  const { user } = useContext(AuthContext);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getNotificationPreferences(user.uid)
+      .then(setPreferences)
+      .catch((error) => console.error('Error loading notification preferences:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  // Changes apply straight away, and roll back if they can't be saved
+  const updatePreferences = async (next: NotificationPreferences) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences(next);
+    try {
+      await saveNotificationPreferences(user.uid, next);
+    } catch (error: any) {
+      setPreferences(previous);
+      Alert.alert('Error', error.message || 'Failed to save notification settings');
+    }
+  };
+
+  const toggle = (key: PushToggle) => updatePreferences({ ...preferences, [key]: !preferences[key] });
+
+  const updateQuietHours = (changes: Partial<NotificationPreferences['quietHours']>) =>
+    updatePreferences({ ...preferences, quietHours: { ...preferences.quietHours, ...changes } });
+
+  const stepHour = (field: 'startHour' | 'endHour', step: number) =>
+    updateQuietHours({ [field]: (preferences.quietHours[field] + step + 24) % 24 });
+
+  const renderHourPicker = (label: string, field: 'startHour' | 'endHour') => (
+    <View style={styles.hourPicker}>
+      <Text style={styles.hourLabel}>{label}</Text>
+      <TouchableOpacity onPress={() => stepHour(field, 1)} style={styles.hourStep}>
+        <ChevronUpIcon size="md" color="primary" />
+      </TouchableOpacity>
+      <Text style={styles.hourValue}>{formatHour(preferences.quietHours[field])}</Text>
+      <TouchableOpacity onPress={() => stepHour(field, -1)} style={styles.hourStep}>
+        <ChevronDownIcon size="md" color="primary" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const switchColors = { false: theme.colors.outline, true: theme.colors.primary };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <BellIcon size="lg" color="primary" />
+            <Text style={styles.title}>Notification Settings</Text>
+            <Text style={styles.subtitle}>Choose what gets pushed to your devices</Text>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          ) : (
+            <>
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>Push Notifications</Text>
+                {PUSH_TOGGLES.map(({ key, label, description }) => (
+                  <View key={key} style={styles.row}>
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowLabel}>{label}</Text>
+                      <Text style={styles.rowDescription}>{description}</Text>
+                    </View>
+                    <Switch
+                      value={preferences[key]}
+                      onValueChange={() => toggle(key)}
+                      trackColor={switchColors}
+                    />
+                  </View>
+                ))}
+              </Card>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.row}>
+                  <View style={styles.rowText}>
+                    <Text style={styles.sectionTitle}>Quiet Hours</Text>
+                    <Text style={styles.rowDescription}>
+                      No pushes during these hours. Your notifications tab still fills up as usual.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={preferences.quietHours.enabled}
+                    onValueChange={(enabled) => updateQuietHours({ enabled })}
+                    trackColor={switchColors}
+                  />
+                </View>
+
+                {preferences.quietHours.enabled && (
+                  <View style={styles.hours}>
+                    {renderHourPicker('From', 'startHour')}
+                    {renderHourPicker('Until', 'endHour')}
+                  </View>
+                )}
+              </Card>
+            </>
+          )}
+
+          <Button
+            title="Done"
+            onPress={() => navigation.goBack()}
+            variant="ghost"
+            size="md"
+            fullWidth
+          />
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  rowLabel: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  rowDescription: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  hours: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: theme.spacing.md,
+  },
+  hourPicker: {
+    alignItems: 'center',
+  },
+  hourLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+  },
+  hourStep: {
+    padding: theme.spacing.xs,
+  },
+  hourValue: {
+    fontSize: theme.typography.fontSize.xl,
+    color: theme.colors.text,
+    fontWeight: theme.typography.fontWeight.bold as any,
+  },
+});
+
+export default NotificationSettingsScreen;
@@ -0,0 +1,285 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import {
+  subscribeToNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../services/notificationService';
+import { AppNotification, RootStackParamList } from '../types';
+import { Card, Button, BellIcon, HeartIcon, MessageSquareIcon, UserIcon, ClockIcon } from '../components/ui';
+import { theme } from '../types/theme';
+import { formatTimeAgo } from '../utils/time';
+
+type NotificationsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs'>;
+
+interface Props {
+  navigation: NotificationsScreenNavigationProp;
+}
+
+// "Ana", "Ana and Ben", "Ana and 4 others"
+const formatActors = (notification: AppNotification) => {
+  const [first = 'Someone', second] = notification.actorNames;
+  if (notification.actorCount <= 1) return first;
+  if (notification.actorCount === 2 && second) return `${first} and ${second}`;
+
+  const others = notification.actorCount - 1;
+  return `${first} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+const describeNotification = (notification: AppNotification) => {
+  const actors = formatActors(notification);
+
+  switch (notification.type) {
+    case 'review_liked':
+      return `${actors} liked your review of ${notification.concertName}`;
+    case 'review_commented':
+      return `${actors} commented on your review of ${notification.concertName}`;
+    case 'new_follower':
+      return `${actors} started following you`;
+    default:
+      return `${actors} interacted with you`;
+  }
+};
+
+const NotificationsScreen: React.FC<Partial<Props>> = ({ navigation }) => {
+  const { user } = useContext(AuthContext);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [markingAll, setMarkingAll] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToNotifications(user.uid, (latest) => {
+      setNotifications(latest);
+      setLoading(false);
+    });
+  }, [user]);
+
+  const hasUnread = notifications.some((notification) => !notification.read);
+
+  const handlePress = async (notification: AppNotification) => {
+    if (!notification.read) {
+      // The listener brings the change back; a failure only leaves it looking unread
+      markNotificationRead(notification.id).catch((error) =>
+        console.error('Error marking notification read:', error));
+    }
+
+    if (notification.type === 'new_follower') {
+      navigation?.navigate('UserProfile', { userId: notification.actorRefs[0].split('/').pop() });
+    } else if (notification.concertRef) {
+      navigation?.navigate('ConcertDetail', { concertId: notification.concertRef.split('/').pop()! });
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+
+    setMarkingAll(true);
+    try {
+      await markAllNotificationsRead(user.uid);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to mark notifications as read');
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const renderIcon = (notification: AppNotification) => {
+    switch (notification.type) {
+      case 'review_liked':
+        return <HeartIcon size="md" color="error" />;
+      case 'review_commented':
+        return <MessageSquareIcon size="md" color="secondary" />;
+      default:
+        return <UserIcon size="md" color="primary" />;
+    }
+  };
+
+  const renderNotification = (notification: AppNotification) => (
+    <Card
+      variant={notification.read ? 'outlined' : 'elevated'}
+      style={styles.notificationCard}
+      onPress={() => handlePress(notification)}
+    >
+      <View style={styles.notificationContent}>
+        <View style={styles.notificationIcon}>{renderIcon(notification)}</View>
+
+        <View style={styles.notificationDetails}>
+          <Text style={[styles.notificationText, !notification.read && styles.unreadText]}>
+            {describeNotification(notification)}
+          </Text>
+          {notification.preview ? (
+            <Text style={styles.preview} numberOfLines={2}>"{notification.preview}"</Text>
+          ) : null}
+          <View style={styles.timestampRow}>
+            <ClockIcon size="sm" color="textSecondary" />
+            <Text style={styles.timestamp}>{formatTimeAgo(notification.updatedAt)}</Text>
+          </View>
+        </View>
+
+        {!notification.read && <View style={styles.unreadDot} />}
+      </View>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <FlatList
+          data={notifications}
+          keyExtractor={(notification) => notification.id}
+          renderItem={({ item }) => renderNotification(item)}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={
+            <View style={styles.header}>
+              <Text style={styles.title}>Notifications</Text>
+              <View style={styles.headerActions}>
+                {hasUnread && (
+                  <Button
+                    title="Mark All as Read"
+                    onPress={handleMarkAllRead}
+                    loading={markingAll}
+                    variant="ghost"
+                    size="sm"
+                  />
+                )}
+                <Button
+                  title="Settings"
+                  onPress={() => navigation?.navigate('NotificationSettings')}
+                  variant="ghost"
+                  size="sm"
+                />
+              </View>
+            </View>
+          }
+          ListEmptyComponent={
+            loading ? null : (
+              <Card variant="outlined" style={styles.emptyState}>
+                <BellIcon size="xl" color="textSecondary" />
+                <Text style={styles.emptyTitle}>You're all caught up</Text>
+                <Text style={styles.emptyText}>
+                  Likes and comments on your reviews and new followers will show up here.
+                </Text>
+              </Card>
+            )
+          }
+        />
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    marginBottom: theme.spacing.xl,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: 'bold' as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  notificationCard: {
+    marginBottom: theme.spacing.md,
+  },
+  notificationContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  notificationIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surfaceVariant,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  notificationDetails: {
+    flex: 1,
+  },
+  notificationText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  unreadText: {
+    fontWeight: '600' as any,
+  },
+  preview: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+    marginBottom: theme.spacing.xs,
+  },
+  timestampRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timestamp: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textTertiary,
+    marginLeft: theme.spacing.xs,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  emptyState: {
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+    marginTop: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    color: theme.colors.text,
+    fontWeight: '500' as any,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: theme.typography.lineHeight.relaxed,
+  },
+});
+
+export default NotificationsScreen;
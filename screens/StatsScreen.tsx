@@ -0,0 +1,288 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { AuthContext } from '../context/AuthContext';
+import { getUserConcertStats } from '../services/statsService';
+import { ConcertStats, CountEntry, fillRecentMonths } from '../utils/concertStats';
+import { RootStackParamList } from '../types';
+import { Button, Card, MusicIcon, MapPinIcon, CalendarIcon, StarIcon, TrendingUpIcon } from '../components/ui';
+import { BarChart, ColumnChart, BarChartEntry } from '../components/BarChart';
+import { theme } from '../types/theme';
+
+type StatsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Stats'>;
+
+interface Props {
+  navigation: StatsScreenNavigationProp;
+}
+
+// How many entries the "top" lists show
+const TOP_COUNT = 5;
+
+const toChartData = (entries: CountEntry[]): BarChartEntry[] =>
+  entries.map(({ key, label, count }) => ({ key, label, value: count }));
+
+const StatsScreen: React.FC<Props> = ({ navigation }) => {
+  const { user } = useContext(AuthContext);
+  const [stats, setStats] = useState<ConcertStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Recompute on focus so newly logged concerts are included
+  useFocusEffect(
+    useCallback(() => {
+      loadStats();
+    }, [user?.uid])
+  );
+
+  const loadStats = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setStats(await getUserConcertStats(user.uid));
+    } catch (error) {
+      console.error('Error loading stats:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const renderSection = (title: string, icon: React.ReactNode, content: React.ReactNode) => (
+    <Card variant="elevated" style={styles.card}>
+      <View style={styles.sectionTitleRow}>
+        {icon}
+        <Text style={styles.sectionTitle}>{title}</Text>
+      </View>
+      {content}
+    </Card>
+  );
+
+  const renderTopList = (entries: CountEntry[], emptyText: string, color: 'primary' | 'secondary' | 'info' | 'accent') =>
+    entries.length === 0
+      ? <Text style={styles.emptyText}>{emptyText}</Text>
+      : <BarChart data={toChartData(entries.slice(0, TOP_COUNT))} color={color} />;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <TrendingUpIcon size="xl" color="primary" />
+            <Text style={styles.title}>Your Stats</Text>
+            <Text style={styles.subtitle}>Your live music life in numbers</Text>
+            <Button
+              title="Year in Review"
+              onPress={() => navigation.navigate('YearInReview')}
+              variant="outline"
+              size="sm"
+              style={styles.recapButton}
+            />
+          </View>
+
+          {loading && !stats ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Crunching the numbers...</Text>
+            </Card>
+          ) : !stats || stats.totalShows === 0 ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Log a few concerts to see your stats</Text>
+              <Button
+                title="Log a Concert"
+                onPress={() => navigation.navigate('LogConcert')}
+                variant="gradient"
+                size="md"
+                fullWidth
+              />
+            </Card>
+          ) : (
+            <>
+              {/* Highlights */}
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.highlightsRow}>
+                  <View style={styles.highlight}>
+                    <Text style={styles.highlightValue}>{stats.totalShows}</Text>
+                    <Text style={styles.highlightLabel}>Shows</Text>
+                  </View>
+                  <View style={styles.highlight}>
+                    <Text style={styles.highlightValue}>{stats.topArtists.length}</Text>
+                    <Text style={styles.highlightLabel}>Artists</Text>
+                  </View>
+                  <View style={styles.highlight}>
+                    <Text style={styles.highlightValue}>{stats.topVenues.length}</Text>
+                    <Text style={styles.highlightLabel}>Venues</Text>
+                  </View>
+                  <View style={styles.highlight}>
+                    <Text style={styles.highlightValue}>{stats.cities.length}</Text>
+                    <Text style={styles.highlightLabel}>Cities</Text>
+                  </View>
+                </View>
+                {stats.busiestMonth && (
+                  <Text style={styles.factText}>
+                    Busiest month: {stats.busiestMonth.label} ({stats.busiestMonth.count} shows)
+                  </Text>
+                )}
+                {stats.longestGap && (
+                  <Text style={styles.factText}>
+                    Longest gap: {stats.longestGap.days} days, {formatDate(stats.longestGap.from)} to{' '}
+                    {formatDate(stats.longestGap.to)}
+                  </Text>
+                )}
+              </Card>
+
+              {renderSection(
+                'Last 12 Months',
+                <CalendarIcon size="md" color="primary" />,
+                <ColumnChart data={toChartData(fillRecentMonths(stats.showsPerMonth, 12))} />
+              )}
+
+              {renderSection(
+                'Shows per Year',
+                <CalendarIcon size="md" color="primary" />,
+                <BarChart data={toChartData(stats.showsPerYear)} />
+              )}
+
+              {renderSection(
+                'Average Rating by Year',
+                <StarIcon size="md" color="warning" />,
+                stats.averageRatingByYear.length === 0
+                  ? <Text style={styles.emptyText}>No ratings yet</Text>
+                  : (
+                    <BarChart
+                      data={stats.averageRatingByYear.map(({ key, label, average }) => ({ key, label, value: average }))}
+                      maxValue={5}
+                      color="warning"
+                      formatValue={(value) => value.toFixed(1)}
+                    />
+                  )
+              )}
+
+              {renderSection(
+                'Most-Seen Artists',
+                <MusicIcon size="md" color="secondary" />,
+                renderTopList(stats.topArtists, 'No artists yet', 'secondary')
+              )}
+
+              {renderSection(
+                'Most-Visited Venues',
+                <MapPinIcon size="md" color="primary" />,
+                renderTopList(stats.topVenues, 'No venues yet', 'primary')
+              )}
+
+              {renderSection(
+                'Cities',
+                <MapPinIcon size="md" color="info" />,
+                renderTopList(stats.cities, 'Add venue locations to see your cities', 'info')
+              )}
+
+              {renderSection(
+                'Countries',
+                <MapPinIcon size="md" color="info" />,
+                renderTopList(stats.countries, 'Add venue locations to see your countries', 'info')
+              )}
+
+              {renderSection(
+                'Genres',
+                <MusicIcon size="md" color="secondary" />,
+                renderTopList(stats.genres, 'No genre information for your artists yet', 'accent')
+              )}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  recapButton: {
+    marginTop: theme.spacing.md,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+  },
+  highlightsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: theme.spacing.md,
+  },
+  highlight: {
+    alignItems: 'center',
+  },
+  highlightValue: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.primary,
+  },
+  highlightLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  factText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginTop: theme.spacing.xs,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+});
+
+export default StatsScreen;
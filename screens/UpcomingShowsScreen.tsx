@@ -0,0 +1,360 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { AuthContext } from '../context/AuthContext';
+import {
+  getUserUpcomingShows,
+  deleteUpcomingShow,
+  dismissUpcomingShow,
+  isReadyToLog,
+  summarizeTicketSpend,
+} from '../services/upcomingService';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { UpcomingShow, UpcomingShowStatus } from '../types';
+import { Button, Card, Chip, IconButton, CalendarIcon, MapPinIcon, EditIcon, TrashIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type UpcomingShowsNavigationProp = StackNavigationProp<RootStackParamList>;
+
+const formatMoney = (amount: number, currency: string) => {
+  try {
+    return amount.toLocaleString('en-US', { style: 'currency', currency });
+  } catch {
+    // Unknown currency code typed by the user
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+const UpcomingShowsScreen: React.FC = () => {
+  const navigation = useNavigation<UpcomingShowsNavigationProp>();
+  const { user } = useContext(AuthContext);
+  const [shows, setShows] = useState<UpcomingShow[]>([]);
+  const [filter, setFilter] = useState<UpcomingShowStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadShows();
+    }, [user])
+  );
+
+  const loadShows = async () => {
+    if (!user) return;
+
+    try {
+      setShows(await getUserUpcomingShows(user.uid));
+    } catch (error) {
+      console.error('Error loading upcoming shows:', error);
+      Alert.alert('Error', 'Failed to load your upcoming shows');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = (show: UpcomingShow) => {
+    Alert.alert(
+      'Remove Show',
+      `Remove ${show.artistName} from your list?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteUpcomingShow(show.id);
+              setShows((current) => current.filter((item) => item.id !== show.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to remove show');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismiss = async (show: UpcomingShow) => {
+    try {
+      await dismissUpcomingShow(show.id);
+      setShows((current) => current.map((item) => (item.id === show.id ? { ...item, dismissed: true } : item)));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update show');
+    }
+  };
+
+  const readyToLog = shows.filter((show) => isReadyToLog(show));
+  const upcoming = shows.filter((show) =>
+    !isReadyToLog(show) && !show.loggedConcertRef && !show.dismissed
+    && (filter === 'all' || show.status === filter));
+  const spend = Object.entries(summarizeTicketSpend(shows, new Date().getFullYear()));
+
+  const renderShow = (show: UpcomingShow) => (
+    <Card key={show.id} variant="elevated" style={styles.showCard}>
+      <View style={styles.showHeader}>
+        <View style={styles.showInfo}>
+          <Text style={styles.showArtist}>{show.festivalName || show.artistName}</Text>
+          <View style={styles.detailRow}>
+            <MapPinIcon size="sm" color="textSecondary" />
+            <Text style={styles.detailText}>{show.venueName}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <CalendarIcon size="sm" color="textSecondary" />
+            <Text style={styles.detailText}>
+              {show.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+            </Text>
+          </View>
+        </View>
+        <Text style={[styles.statusBadge, show.status === 'going' && styles.statusGoing]}>
+          {show.status === 'going' ? 'Going' : 'Interested'}
+        </Text>
+      </View>
+
+      {show.ticket && (show.ticket.section || show.ticket.seat || show.ticket.price) ? (
+        <Text style={styles.ticketText}>
+          {[
+            show.ticket.section && `Sec ${show.ticket.section}`,
+            show.ticket.row && `Row ${show.ticket.row}`,
+            show.ticket.seat && `Seat ${show.ticket.seat}`,
+            show.ticket.price && formatMoney(show.ticket.price, show.ticket.currency || 'USD'),
+            show.ticket.purchaseSource,
+          ].filter(Boolean).join(' · ')}
+        </Text>
+      ) : null}
+
+      <View style={styles.showActions}>
+        {show.ticketUrl ? (
+          <Button title="Tickets" onPress={() => Linking.openURL(show.ticketUrl!)} variant="ghost" size="sm" />
+        ) : null}
+        <IconButton
+          icon={<EditIcon size="sm" color="textSecondary" />}
+          onPress={() => navigation.navigate('AddUpcomingShow', { upcomingShowId: show.id })}
+          variant="ghost"
+          size="sm"
+        />
+        <IconButton
+          icon={<TrashIcon size="sm" color="error" />}
+          onPress={() => handleDelete(show)}
+          variant="ghost"
+          size="sm"
+        />
+      </View>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <CalendarIcon size="lg" color="primary" />
+            <Text style={styles.title}>Upcoming Shows</Text>
+            <Text style={styles.subtitle}>Shows you're going to or have your eye on</Text>
+          </View>
+
+          <Button
+            title="Add a Show"
+            onPress={() => navigation.navigate('AddUpcomingShow')}
+            variant="gradient"
+            size="md"
+            fullWidth
+            style={styles.addButton}
+          />
+
+          {/* Ticket Spend */}
+          {spend.length > 0 && (
+            <Card variant="filled" style={styles.spendCard}>
+              <Text style={styles.spendLabel}>Spent on tickets in {new Date().getFullYear()}</Text>
+              {spend.map(([currency, total]) => (
+                <Text key={currency} style={styles.spendTotal}>{formatMoney(total, currency)}</Text>
+              ))}
+            </Card>
+          )}
+
+          {/* Ready to Log */}
+          {readyToLog.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>How Was It?</Text>
+              {readyToLog.map((show) => (
+                <Card key={show.id} variant="outlined" style={styles.showCard}>
+                  <Text style={styles.showArtist}>{show.festivalName || show.artistName}</Text>
+                  <Text style={styles.detailText}>
+                    {show.venueName} · {show.date.toLocaleDateString()}
+                  </Text>
+                  <View style={styles.showActions}>
+                    <Button
+                      title="Log It"
+                      onPress={() => navigation.navigate('LogConcert', { upcomingShowId: show.id })}
+                      variant="primary"
+                      size="sm"
+                    />
+                    <Button title="Didn't Go" onPress={() => handleDismiss(show)} variant="ghost" size="sm" />
+                  </View>
+                </Card>
+              ))}
+            </View>
+          )}
+
+          {/* Upcoming */}
+          <View style={styles.section}>
+            <View style={styles.chipRow}>
+              <Chip label="All" active={filter === 'all'} onPress={() => setFilter('all')} />
+              <Chip label="Going" active={filter === 'going'} onPress={() => setFilter('going')} />
+              <Chip label="Interested" active={filter === 'interested'} onPress={() => setFilter('interested')} />
+            </View>
+
+            {!loading && upcoming.length === 0 ? (
+              <Card variant="outlined" style={styles.emptyState}>
+                <Text style={styles.emptyTitle}>Nothing on the calendar</Text>
+                <Text style={styles.emptyText}>Save a show to start your wishlist.</Text>
+              </Card>
+            ) : (
+              upcoming.map(renderShow)
+            )}
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  addButton: {
+    marginBottom: theme.spacing.lg,
+  },
+  spendCard: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  spendLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  spendTotal: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginTop: theme.spacing.xs,
+  },
+  section: {
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  showCard: {
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  showHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  showInfo: {
+    flex: 1,
+  },
+  showArtist: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  detailText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+  },
+  statusBadge: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  statusGoing: {
+    color: theme.colors.success,
+  },
+  ticketText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text,
+    marginTop: theme.spacing.sm,
+  },
+  showActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+});
+
+export default UpcomingShowsScreen;
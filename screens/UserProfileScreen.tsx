@@ -1,22 +1,27 @@
-import React, { useContext, useEffect, useState } from 'react';
+import React, { useCallback, useContext, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   Alert,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RouteProp } from '@react-navigation/native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { AuthContext } from '../context/AuthContext';
-import { getUserConcerts, getArtistByRef, getVenueByRef } from '../services/concertService';
+import { getUserConcerts, getArtistByRef, getVenueByRef, deleteConcert } from '../services/concertService';
 import { followUser, unfollowUser, isFollowing } from '../services/feedService';
-import { RootStackParamList, Concert, Artist, Venue, User } from '../types';
+import { requestDataExport } from '../services/accountService';
+import { getUserAchievements } from '../services/achievementService';
+import { getTasteCompatibility } from '../services/compatibilityService';
+import { RootStackParamList, Concert, Artist, Venue, User, Achievement, TasteCompatibility } from '../types';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
-import { Button, Card, IconButton, MusicIcon, MapPinIcon, CalendarIcon, StarIcon, UserIcon, PlusIcon } from '../components/ui';
+import { IconName } from '../components/ui/Icon';
+import { Button, Card, Chip, IconButton, Icon, MusicIcon, MapPinIcon, CalendarIcon, StarIcon, UserIcon, PlusIcon, EditIcon, TrashIcon } from '../components/ui';
 import { theme } from '../types/theme';
 
 type UserProfileScreenNavigationProp = StackNavigationProp<RootStackParamList, 'UserProfile'>;
@@ -47,72 +52,88 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
   const [loading, setLoading] = useState(true);
   const [isFollowingUser, setIsFollowingUser] = useState(false);
   const [followLoading, setFollowLoading] = useState(false);
+  const [deletingConcertId, setDeletingConcertId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [compatibility, setCompatibility] = useState<TasteCompatibility | null>(null);
+
+  // Refetch on focus so concerts edited or deleted elsewhere stay in sync
+  useFocusEffect(
+    useCallback(() => {
+      const fetchUserData = async () => {
+        if (!profileUserId) return;
+
+        try {
+          // Fetch user profile
+          const userDoc = await getDoc(doc(db, 'users', profileUserId));
+          if (userDoc.exists()) {
+            setUserProfile(userDoc.data() as User);
+          } else {
+            // User document doesn't exist, create it
+            console.log('Creating user profile for:', profileUserId);
+            const userData = {
+              uid: profileUserId,
+              email: '', // We don't have email for other users
+              displayName: 'User',
+              loggedConcertsCount: 0,
+            };
 
-  useEffect(() => {
-    const fetchUserData = async () => {
-      if (!profileUserId) return;
-
-      try {
-        // Fetch user profile
-        const userDoc = await getDoc(doc(db, 'users', profileUserId));
-        if (userDoc.exists()) {
-          setUserProfile(userDoc.data() as User);
-        } else {
-          // User document doesn't exist, create it
-          console.log('Creating user profile for:', profileUserId);
-          const userData = {
-            uid: profileUserId,
-            email: '', // We don't have email for other users
-            displayName: 'User',
-            loggedConcertsCount: 0,
-          };
-
-          try {
-            await setDoc(doc(db, 'users', profileUserId), userData);
-            setUserProfile(userData);
-          } catch (createError: any) {
-            console.error('Error creating user profile:', createError);
-            // If we can't create the profile, still set basic data
-            setUserProfile(userData);
+            try {
+              await setDoc(doc(db, 'users', profileUserId), userData);
+              setUserProfile(userData);
+            } catch (createError: any) {
+              console.error('Error creating user profile:', createError);
+              // If we can't create the profile, still set basic data
+              setUserProfile(userData);
+            }
           }
-        }
 
-        // Check follow status if viewing another user's profile
-        if (!isOwnProfile && user) {
-          const following = await checkFollowStatus(user.uid, profileUserId);
-          setIsFollowingUser(following);
-        }
+          // Check follow status if viewing another user's profile
+          if (!isOwnProfile && user) {
+            const following = await checkFollowStatus(user.uid, profileUserId);
+            setIsFollowingUser(following);
 
-        // Fetch user concerts
-        const userConcerts = await getUserConcerts(profileUserId);
-
-        // Fetch artist and venue details for each concert
-        const concertsWithDetails: ConcertWithDetails[] = await Promise.all(
-          userConcerts.map(async (concert) => {
-            const [artist, venue] = await Promise.all([
-              getArtistByRef(concert.artistRef),
-              getVenueByRef(concert.venueRef),
-            ]);
-
-            return {
-              ...concert,
-              artist: artist || undefined,
-              venue: venue || undefined,
-            };
-          })
-        );
-
-        setConcerts(concertsWithDetails);
-      } catch (error) {
-        console.error('Error fetching user data:', error);
-        Alert.alert('Error', 'Failed to load profile data');
-      } finally {
-        setLoading(false);
-      }
-    };
+            // Not worth holding up the profile for; the card just stays hidden on failure
+            getTasteCompatibility(profileUserId)
+              .then(setCompatibility)
+              .catch(() => setCompatibility(null));
+          }
+
+          // Fetch user concerts and badges
+          const [userConcerts, userAchievements] = await Promise.all([
+            getUserConcerts(profileUserId),
+            getUserAchievements(profileUserId),
+          ]);
+          setAchievements(userAchievements);
+
+          // Fetch artist and venue details for each concert
+          const concertsWithDetails: ConcertWithDetails[] = await Promise.all(
+            userConcerts.map(async (concert) => {
+              const [artist, venue] = await Promise.all([
+                getArtistByRef(concert.artistRef),
+                getVenueByRef(concert.venueRef),
+              ]);
+
+              return {
+                ...concert,
+                artist: artist || undefined,
+                venue: venue || undefined,
+              };
+            })
+          );
+
+          setConcerts(concertsWithDetails);
+        } catch (error) {
+          console.error('Error fetching user data:', error);
+          Alert.alert('Error', 'Failed to load profile data');
+        } finally {
+          setLoading(false);
+        }
+      };
 
-    fetchUserData();
-  }, [profileUserId, user, isOwnProfile]);
+      fetchUserData();
+    }, [profileUserId, user, isOwnProfile])
+  );
 
   const checkFollowStatus = async (currentUserId: string, targetUserId: string): Promise<boolean> => {
     try {
@@ -147,6 +168,60 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const handleExportData = async () => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      const dataExport = await requestDataExport(user.uid);
+      Alert.alert(
+        'Your Data Is Ready',
+        `Exported ${dataExport.counts.concerts} concerts, ${dataExport.counts.reviews} reviews and ${dataExport.counts.comments} comments.`,
+        [
+          { text: 'Full Archive (JSON)', onPress: () => Linking.openURL(dataExport.jsonUrl) },
+          { text: 'Concerts (CSV)', onPress: () => Linking.openURL(dataExport.csvUrl) },
+          { text: 'Close', style: 'cancel' },
+        ]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDeleteConcert = (concert: ConcertWithDetails) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Delete Concert',
+      `Remove ${concert.artist?.name || 'this concert'} from your history? Its reviews, likes and comments will be deleted too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setDeletingConcertId(concert.id);
+            try {
+              await deleteConcert(concert.id, user.uid);
+              setConcerts(prevConcerts => prevConcerts.filter(c => c.id !== concert.id));
+              setUserProfile(prevProfile =>
+                prevProfile
+                  ? { ...prevProfile, loggedConcertsCount: Math.max(0, prevProfile.loggedConcertsCount - 1) }
+                  : prevProfile
+              );
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete concert');
+            } finally {
+              setDeletingConcertId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const renderStars = (rating: number) => {
     const stars = [];
     for (let i = 1; i <= 5; i++) {
@@ -161,6 +236,82 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
     return stars;
   };
 
+  const describeCorrelation = (correlation: number | null) => {
+    if (correlation === null) return 'Not enough artists you both rated to compare ratings yet';
+    if (correlation >= 0.5) return 'You rate the artists you share very similarly';
+    if (correlation >= 0.2) return 'You mostly agree on the artists you share';
+    if (correlation > -0.2) return 'Your ratings of shared artists are all over the place';
+    return 'You tend to disagree about the artists you share';
+  };
+
+  const renderCompatibility = (match: TasteCompatibility) => (
+    <View style={styles.statsSection}>
+      <Text style={[styles.sectionTitle, styles.badgesTitle]}>Your Concert Compatibility</Text>
+      <Card variant="elevated" style={styles.compatibilityCard}>
+        <View style={styles.compatibilityHeader}>
+          <Text style={styles.compatibilityScore}>{match.score}%</Text>
+          <View style={styles.compatibilityBar}>
+            <View style={[styles.compatibilityFill, { width: `${match.score}%` }]} />
+          </View>
+        </View>
+
+        <View style={styles.compatibilityCounts}>
+          <View style={styles.compatibilityCount}>
+            <Text style={styles.compatibilityCountNumber}>{match.sharedArtistsCount}</Text>
+            <Text style={styles.compatibilityCountLabel}>Shared Artists</Text>
+          </View>
+          <View style={styles.compatibilityCount}>
+            <Text style={styles.compatibilityCountNumber}>{match.sharedShowsCount}</Text>
+            <Text style={styles.compatibilityCountLabel}>Same Shows</Text>
+          </View>
+          <View style={styles.compatibilityCount}>
+            <Text style={styles.compatibilityCountNumber}>{match.sharedVenuesCount}</Text>
+            <Text style={styles.compatibilityCountLabel}>Shared Venues</Text>
+          </View>
+        </View>
+
+        <View style={styles.compatibilityRow}>
+          <StarIcon size="sm" color="warning" />
+          <Text style={styles.compatibilityText}>
+            {describeCorrelation(match.ratingCorrelation)}
+            {match.ratingCorrelation !== null ? ` (${match.commonRatedArtists} artists)` : ''}
+          </Text>
+        </View>
+
+        {match.sharedArtists.length > 0 && (
+          <View style={styles.compatibilityChips}>
+            {match.sharedArtists.map((artist) => (
+              <Chip
+                key={artist.ref}
+                label={artist.name}
+                onPress={() => navigation.navigate('ArtistDetail', { artistId: artist.ref.split('/').pop()! })}
+              />
+            ))}
+          </View>
+        )}
+
+        {match.sharedShows.slice(0, 3).map((show) => (
+          <View key={show.eventRef} style={styles.compatibilityRow}>
+            <CalendarIcon size="sm" color="textSecondary" />
+            <Text style={styles.compatibilityText} numberOfLines={1}>
+              {show.name} · {show.venueName} ·{' '}
+              {new Date(show.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </Text>
+          </View>
+        ))}
+
+        {match.sharedVenues.length > 0 && (
+          <View style={styles.compatibilityRow}>
+            <MapPinIcon size="sm" color="textSecondary" />
+            <Text style={styles.compatibilityText} numberOfLines={2}>
+              {match.sharedVenues.slice(0, 3).map((venue) => venue.name).join(', ')}
+            </Text>
+          </View>
+        )}
+      </Card>
+    </View>
+  );
+
   const renderConcertItem = (concert: ConcertWithDetails) => (
     <Card
       key={concert.id}
@@ -171,7 +322,10 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
       <View style={styles.concertHeader}>
         <View style={styles.artistInfo}>
           <MusicIcon size="md" color="primary" />
-          <Text style={styles.artistName}>{concert.artist?.name || 'Unknown Artist'}</Text>
+          <Text style={styles.artistName}>
+            {concert.festivalName || concert.artist?.name || concert.artistName || 'Unknown Artist'}
+            {concert.lineup && concert.lineup.length > 1 ? ` +${concert.lineup.length - 1}` : ''}
+          </Text>
         </View>
         <View style={styles.ratingContainer}>
           {renderStars(concert.rating)}
@@ -200,6 +354,24 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
           {concert.notes}
         </Text>
       )}
+
+      {isOwnProfile && (
+        <View style={styles.concertActions}>
+          <IconButton
+            icon={<EditIcon size="sm" color="textSecondary" />}
+            onPress={() => navigation?.navigate('LogConcert', { concertId: concert.id })}
+            variant="ghost"
+            size="sm"
+          />
+          <IconButton
+            icon={<TrashIcon size="sm" color="error" />}
+            onPress={() => handleDeleteConcert(concert)}
+            loading={deletingConcertId === concert.id}
+            variant="ghost"
+            size="sm"
+          />
+        </View>
+      )}
     </Card>
   );
 
@@ -288,9 +460,46 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
                   style={styles.logButton}
                 />
               )}
+
+              {isOwnProfile && (
+                <Button
+                  title="Import from Spreadsheet"
+                  onPress={() => navigation?.navigate('ImportConcerts')}
+                  variant="ghost"
+                  size="md"
+                  fullWidth
+                  style={styles.importButton}
+                />
+              )}
+
+              {isOwnProfile && (
+                <Button
+                  title="Download My Data"
+                  onPress={handleExportData}
+                  loading={exporting}
+                  variant="ghost"
+                  size="md"
+                  fullWidth
+                  style={styles.importButton}
+                />
+              )}
+
+              {isOwnProfile && (
+                <Button
+                  title="Delete Account"
+                  onPress={() => navigation?.navigate('DeleteAccount')}
+                  variant="ghost"
+                  size="sm"
+                  fullWidth
+                  style={styles.importButton}
+                />
+              )}
             </Card>
           </View>
 
+          {/* Compatibility with the viewer, next to the follow decision */}
+          {!isOwnProfile && compatibility && renderCompatibility(compatibility)}
+
           {/* Stats */}
           <View style={styles.statsSection}>
             <Card variant="elevated" style={styles.statsCard}>
@@ -312,6 +521,22 @@ const UserProfileScreen: React.FC<Props> = ({ navigation, route }) => {
             </Card>
           </View>
 
+          {/* Badges */}
+          {achievements.length > 0 && (
+            <View style={styles.statsSection}>
+              <Text style={[styles.sectionTitle, styles.badgesTitle]}>Badges ({achievements.length})</Text>
+              <View style={styles.badgeGrid}>
+                {achievements.map((achievement) => (
+                  <Card key={achievement.id} variant="outlined" style={styles.badgeCard}>
+                    <Icon name={achievement.icon as IconName} size="lg" color="warning" />
+                    <Text style={styles.badgeTitle}>{achievement.title}</Text>
+                    <Text style={styles.badgeDescription}>{achievement.description}</Text>
+                  </Card>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Concerts Section */}
           <View style={styles.concertsSection}>
             <View style={styles.sectionHeader}>
@@ -448,6 +673,9 @@ const styles = StyleSheet.create({
   logButton: {
     marginTop: theme.spacing.md,
   },
+  importButton: {
+    marginTop: theme.spacing.xs,
+  },
   statsSection: {
     marginBottom: theme.spacing.xl,
   },
@@ -482,6 +710,90 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: theme.spacing.sm,
   },
+  badgesTitle: {
+    marginBottom: theme.spacing.md,
+  },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  badgeCard: {
+    width: '31%',
+    padding: theme.spacing.sm,
+    alignItems: 'center',
+  },
+  badgeTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  badgeDescription: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  compatibilityCard: {
+    padding: theme.spacing.lg,
+  },
+  compatibilityHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  compatibilityScore: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.primary,
+    marginRight: theme.spacing.md,
+  },
+  compatibilityBar: {
+    flex: 1,
+    height: 8,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surfaceVariant,
+    overflow: 'hidden',
+  },
+  compatibilityFill: {
+    height: '100%',
+    backgroundColor: theme.colors.primary,
+  },
+  compatibilityCounts: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: theme.spacing.md,
+  },
+  compatibilityCount: {
+    alignItems: 'center',
+  },
+  compatibilityCountNumber: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+  },
+  compatibilityCountLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+  compatibilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  compatibilityText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.sm,
+    flex: 1,
+  },
+  compatibilityChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.md,
+  },
   concertsSection: {
     flex: 1,
   },
@@ -551,6 +863,12 @@ const styles = StyleSheet.create({
     lineHeight: theme.typography.lineHeight.relaxed,
     marginTop: theme.spacing.sm,
   },
+  concertActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
   emptyState: {
     padding: theme.spacing.xl,
     alignItems: 'center',
@@ -0,0 +1,395 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { AuthContext } from '../context/AuthContext';
+import { getVenueByRef } from '../services/concertService';
+import { getVenueConcerts, getVenueReviews } from '../services/venueService';
+import { groupConcertsIntoShows } from '../services/eventService';
+import { RootStackParamList, Venue, Review, ShowSummary } from '../types';
+import {
+  Button,
+  Card,
+  MusicIcon,
+  MapPinIcon,
+  CalendarIcon,
+  StarIcon,
+  HeartIcon,
+  UsersIcon,
+  MessageSquareIcon,
+  ChevronRightIcon,
+} from '../components/ui';
+import { RatingSummary } from '../components/RatingSummary';
+import { theme } from '../types/theme';
+import { formatVenueLocation, buildMapsUrl } from '../utils/venue';
+
+type VenueDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VenueDetail'>;
+type VenueDetailScreenRouteProp = RouteProp<RootStackParamList, 'VenueDetail'>;
+
+interface Props {
+  navigation: VenueDetailScreenNavigationProp;
+  route: VenueDetailScreenRouteProp;
+}
+
+// Shows listed before "Show All" is tapped
+const INITIAL_SHOWS = 10;
+
+// Mean of everyone's rating for one show, e.g. 4.5
+const getShowAverage = (show: ShowSummary): number | null => {
+  const ratings = show.concerts.map((concert) => concert.rating).filter((rating) => rating >= 1);
+  return ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null;
+};
+
+const VenueDetailScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { user } = useContext(AuthContext);
+  const { venueId } = route.params;
+  const [venue, setVenue] = useState<Venue | null>(null);
+  const [shows, setShows] = useState<ShowSummary[]>([]);
+  const [attendanceCount, setAttendanceCount] = useState(0);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [showAllShows, setShowAllShows] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Reload on focus so concerts and reviews added elsewhere show up
+  useFocusEffect(
+    useCallback(() => {
+      loadVenue();
+    }, [venueId])
+  );
+
+  const loadVenue = async () => {
+    const venueRef = `venues/${venueId}`;
+
+    try {
+      setLoading(true);
+      const [venueData, concerts, venueReviews] = await Promise.all([
+        getVenueByRef(venueRef),
+        getVenueConcerts(venueRef),
+        getVenueReviews(venueRef),
+      ]);
+
+      setVenue(venueData);
+      setShows(groupConcertsIntoShows(concerts));
+      setAttendanceCount(concerts.length);
+      setReviews(venueReviews);
+    } catch (error) {
+      console.error('Error loading venue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open the user's own log of the show if they were there, otherwise the first one
+  const openShow = (show: ShowSummary) => {
+    const ownConcert = show.concerts.find((concert) => concert.userRef === `users/${user?.uid}`);
+    navigation.navigate('ConcertDetail', { concertId: (ownConcert || show.concerts[0]).id });
+  };
+
+  const renderStars = (rating: number) => (
+    <View style={styles.starsRow}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <StarIcon key={star} size="sm" color={star <= rating ? 'warning' : 'textTertiary'} />
+      ))}
+    </View>
+  );
+
+  const renderShow = (show: ShowSummary) => {
+    const average = getShowAverage(show);
+
+    return (
+      <TouchableOpacity key={show.key} style={styles.listRow} onPress={() => openShow(show)}>
+        <View style={styles.listRowContent}>
+          <View style={styles.detailRow}>
+            <MusicIcon size="sm" color="textSecondary" />
+            <Text style={styles.rowTitle}>{show.festivalName || show.artistName || 'Unknown Artist'}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <CalendarIcon size="sm" color="textSecondary" />
+            <Text style={styles.rowSubtitle}>
+              {show.date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <UsersIcon size="sm" color="textSecondary" />
+            <Text style={styles.rowMeta}>{show.concerts.length}</Text>
+            {average !== null && (
+              <>
+                <StarIcon size="sm" color="warning" />
+                <Text style={styles.rowMeta}>{average.toFixed(1)}</Text>
+              </>
+            )}
+          </View>
+        </View>
+        <ChevronRightIcon size="md" color="textSecondary" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReview = (review: Review) => (
+    <TouchableOpacity
+      key={review.id}
+      style={styles.listRow}
+      onPress={() => navigation.navigate('ConcertDetail', { concertId: review.concertRef.split('/').pop()! })}
+    >
+      <View style={styles.listRowContent}>
+        {review.rating > 0 && renderStars(review.rating)}
+        <Text style={styles.reviewText} numberOfLines={4}>{review.text}</Text>
+        <View style={styles.detailRow}>
+          <HeartIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowMeta}>{review.likesCount}</Text>
+          <MessageSquareIcon size="sm" color="textSecondary" />
+          <Text style={styles.rowMeta}>{review.commentsCount}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const mapsUrl = venue ? buildMapsUrl(venue) : null;
+  const hasPosition = venue?.latitude !== undefined && venue?.longitude !== undefined;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {loading && !venue ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Loading venue...</Text>
+            </Card>
+          ) : !venue ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Venue not found</Text>
+              <Button title="Go Back" onPress={() => navigation.goBack()} variant="outline" size="md" />
+            </Card>
+          ) : (
+            <>
+              {/* Header Section */}
+              <View style={styles.header}>
+                <MapPinIcon size="xl" color="primary" />
+                <Text style={styles.title}>{venue.name}</Text>
+                <Text style={styles.subtitle}>{formatVenueLocation(venue) || 'Location unknown'}</Text>
+              </View>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.statsRow}>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{shows.length}</Text>
+                    <Text style={styles.statLabel}>{shows.length === 1 ? 'Show' : 'Shows'}</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{attendanceCount}</Text>
+                    <Text style={styles.statLabel}>Check-ins</Text>
+                  </View>
+                  {venue.capacity ? (
+                    <View style={styles.statItem}>
+                      <Text style={styles.statValue}>{venue.capacity.toLocaleString()}</Text>
+                      <Text style={styles.statLabel}>Capacity</Text>
+                    </View>
+                  ) : null}
+                </View>
+              </Card>
+
+              {(venue.address || hasPosition) && (
+                <Card variant="elevated" style={styles.card}>
+                  <View style={styles.sectionTitleRow}>
+                    <MapPinIcon size="md" color="primary" />
+                    <Text style={styles.sectionTitle}>Location</Text>
+                  </View>
+                  {venue.address ? <Text style={styles.addressText}>{venue.address}</Text> : null}
+                  {hasPosition && (
+                    <Text style={styles.rowSubtitle}>
+                      {venue.latitude!.toFixed(5)}, {venue.longitude!.toFixed(5)}
+                    </Text>
+                  )}
+                  {mapsUrl && (
+                    <Button
+                      title="Open in Maps"
+                      onPress={() => Linking.openURL(mapsUrl)}
+                      variant="outline"
+                      size="md"
+                      fullWidth
+                      style={styles.mapsButton}
+                    />
+                  )}
+                </Card>
+              )}
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <StarIcon size="md" color="warning" />
+                  <Text style={styles.sectionTitle}>Live Ratings</Text>
+                </View>
+                <RatingSummary stats={venue.ratingStats} />
+              </Card>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <CalendarIcon size="md" color="primary" />
+                  <Text style={styles.sectionTitle}>Past Shows ({shows.length})</Text>
+                </View>
+                {shows.length === 0 ? (
+                  <Text style={styles.emptyText}>Nobody has logged a show here yet</Text>
+                ) : (
+                  (showAllShows ? shows : shows.slice(0, INITIAL_SHOWS)).map(renderShow)
+                )}
+                {!showAllShows && shows.length > INITIAL_SHOWS && (
+                  <Button
+                    title={`Show All ${shows.length} Shows`}
+                    onPress={() => setShowAllShows(true)}
+                    variant="ghost"
+                    size="md"
+                    fullWidth
+                  />
+                )}
+              </Card>
+
+              <Card variant="elevated" style={styles.card}>
+                <View style={styles.sectionTitleRow}>
+                  <MessageSquareIcon size="md" color="primary" />
+                  <Text style={styles.sectionTitle}>Recent Reviews</Text>
+                </View>
+                {reviews.length === 0 ? (
+                  <Text style={styles.emptyText}>No reviews yet</Text>
+                ) : (
+                  reviews.map(renderReview)
+                )}
+              </Card>
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    fontWeight: theme.typography.fontWeight.medium as any,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.primary,
+  },
+  statLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.sm,
+  },
+  addressText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  mapsButton: {
+    marginTop: theme.spacing.md,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.outline,
+  },
+  listRowContent: {
+    flex: 1,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.xs,
+  },
+  rowTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.text,
+    marginLeft: theme.spacing.xs,
+  },
+  rowSubtitle: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+  },
+  rowMeta: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+    marginRight: theme.spacing.md,
+  },
+  reviewText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text,
+    lineHeight: 22,
+    marginBottom: theme.spacing.xs,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+});
+
+export default VenueDetailScreen;
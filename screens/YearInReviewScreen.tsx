@@ -0,0 +1,458 @@
+import React, { useCallback, useContext, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Dimensions,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { captureRef } from 'react-native-view-shot';
+import * as Sharing from 'expo-sharing';
+import { AuthContext } from '../context/AuthContext';
+import { getYearInReviews } from '../services/statsService';
+import { logYearInReviewShared } from '../services/analyticsService';
+import { showErrorToast } from '../components/Toast';
+import { YearInReview } from '../utils/yearInReview';
+import { RootStackParamList, Concert } from '../types';
+import { Button, Card, Chip, MusicIcon, MapPinIcon, StarIcon, HeartIcon, CalendarIcon } from '../components/ui';
+import { theme } from '../types/theme';
+
+type YearInReviewScreenNavigationProp = StackNavigationProp<RootStackParamList, 'YearInReview'>;
+type YearInReviewScreenRouteProp = RouteProp<RootStackParamList, 'YearInReview'>;
+
+interface Props {
+  navigation: YearInReviewScreenNavigationProp;
+  route: YearInReviewScreenRouteProp;
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+const formatShow = (concert: Concert) =>
+  `${concert.festivalName || concert.artistName || 'Unknown Artist'} at ${concert.venueName || 'Unknown Venue'}`;
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+
+const YearInReviewScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { user } = useContext(AuthContext);
+  const [recaps, setRecaps] = useState<YearInReview[]>([]);
+  const [selectedYear, setSelectedYear] = useState<number | undefined>(route.params?.year);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [sharing, setSharing] = useState(false);
+  const storyRef = useRef<ScrollView>(null);
+  const shareCardRef = useRef<View>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRecaps();
+    }, [user?.uid])
+  );
+
+  const loadRecaps = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setRecaps(await getYearInReviews(user.uid));
+    } catch (error) {
+      console.error('Error loading year in review:', error);
+      showErrorToast('Failed to build your year in review');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recap = recaps.find((entry) => entry.year === selectedYear) || recaps[0];
+
+  const selectYear = (year: number) => {
+    setSelectedYear(year);
+    setSlideIndex(0);
+    storyRef.current?.scrollTo({ x: 0, animated: false });
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setSlideIndex(Math.round(event.nativeEvent.contentOffset.x / SCREEN_WIDTH));
+  };
+
+  // Render the share card to a PNG and hand it to the system share sheet
+  const handleShare = async () => {
+    if (!recap) return;
+
+    try {
+      setSharing(true);
+      if (!(await Sharing.isAvailableAsync())) {
+        showErrorToast('Sharing is not available on this device');
+        return;
+      }
+
+      const uri = await captureRef(shareCardRef, { format: 'png', quality: 1 });
+      await Sharing.shareAsync(uri, {
+        mimeType: 'image/png',
+        dialogTitle: `My ${recap.year} in live music`,
+        UTI: 'public.png',
+      });
+      await logYearInReviewShared(recap.year, recap.totalShows);
+    } catch (error) {
+      console.error('Error sharing year in review:', error);
+      showErrorToast('Failed to share your year in review');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const renderSlide = (key: string, icon: React.ReactNode, eyebrow: string, headline: string, detail?: string) => (
+    <View key={key} style={styles.slide}>
+      <LinearGradient
+        colors={[theme.colors.gradientStart, theme.colors.gradientEnd]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={styles.slideGradient}
+      >
+        {icon}
+        <Text style={styles.slideEyebrow}>{eyebrow}</Text>
+        <Text style={styles.slideHeadline}>{headline}</Text>
+        {detail ? <Text style={styles.slideDetail}>{detail}</Text> : null}
+      </LinearGradient>
+    </View>
+  );
+
+  const buildSlides = (entry: YearInReview) => {
+    const slides = [
+      renderSlide(
+        'total',
+        <MusicIcon size="xl" color="surface" />,
+        `Your ${entry.year} in live music`,
+        `${entry.totalShows} ${entry.totalShows === 1 ? 'show' : 'shows'}`,
+        `across ${entry.venuesCount} ${entry.venuesCount === 1 ? 'venue' : 'venues'}`
+      ),
+      renderSlide(
+        'artists',
+        <MusicIcon size="xl" color="surface" />,
+        'Artists',
+        `${entry.newArtists.length} new, ${entry.repeatArtists.length} returning`,
+        entry.topArtist
+          ? `You couldn't get enough of ${entry.topArtist.name}: ${entry.topArtist.count} times`
+          : entry.newArtists.slice(0, 3).join(', ')
+      ),
+    ];
+
+    if (entry.topRatedShow) {
+      slides.push(renderSlide(
+        'top-rated',
+        <StarIcon size="xl" color="surface" />,
+        'Show of the year',
+        formatShow(entry.topRatedShow),
+        `${formatDay(entry.topRatedShow.date)} · ${entry.topRatedShow.rating}/5`
+      ));
+    }
+
+    if (entry.mostLikedReview) {
+      slides.push(renderSlide(
+        'review',
+        <HeartIcon size="xl" color="surface" />,
+        'Your most-liked review',
+        `"${entry.mostLikedReview.text.length > 140
+          ? `${entry.mostLikedReview.text.slice(0, 140)}…`
+          : entry.mostLikedReview.text}"`,
+        `${entry.mostLikedReview.likesCount} ${entry.mostLikedReview.likesCount === 1 ? 'like' : 'likes'}`
+      ));
+    }
+
+    if (entry.milesTraveled > 0) {
+      slides.push(renderSlide(
+        'miles',
+        <MapPinIcon size="xl" color="surface" />,
+        'Miles between venues',
+        entry.milesTraveled.toLocaleString(),
+        'Counted venue to venue, in the order you saw the shows'
+      ));
+    }
+
+    if (entry.firstShow && entry.lastShow) {
+      slides.push(renderSlide(
+        'bookends',
+        <CalendarIcon size="xl" color="surface" />,
+        'Opening night to encore',
+        formatShow(entry.firstShow),
+        entry.lastShow.id === entry.firstShow.id
+          ? formatDay(entry.firstShow.date)
+          : `${formatDay(entry.firstShow.date)}, and you closed the year with ${formatShow(entry.lastShow)} on ${formatDay(entry.lastShow.date)}`
+      ));
+    }
+
+    return slides;
+  };
+
+  const slides = recap ? buildSlides(recap) : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={[theme.colors.background, theme.colors.surfaceVariant]}
+        style={styles.gradient}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Year in Review</Text>
+            {recaps.length > 1 && (
+              <View style={styles.yearRow}>
+                {recaps.map((entry) => (
+                  <Chip
+                    key={entry.year}
+                    label={String(entry.year)}
+                    active={entry.year === recap?.year}
+                    onPress={() => selectYear(entry.year)}
+                  />
+                ))}
+              </View>
+            )}
+          </View>
+
+          {loading && recaps.length === 0 ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Putting your year together...</Text>
+            </Card>
+          ) : !recap ? (
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.emptyText}>Log some concerts and your recap will appear here</Text>
+              <Button
+                title="Log a Concert"
+                onPress={() => navigation.navigate('LogConcert')}
+                variant="gradient"
+                size="md"
+                fullWidth
+              />
+            </Card>
+          ) : (
+            <>
+              {/* Story */}
+              <View style={styles.progressRow}>
+                {slides.map((slide, index) => (
+                  <View
+                    key={slide.key}
+                    style={[styles.progressSegment, index <= slideIndex && styles.progressSegmentActive]}
+                  />
+                ))}
+              </View>
+              <ScrollView
+                ref={storyRef}
+                horizontal
+                pagingEnabled
+                showsHorizontalScrollIndicator={false}
+                onMomentumScrollEnd={handleScroll}
+                style={styles.story}
+              >
+                {slides}
+              </ScrollView>
+
+              {/* Shareable card */}
+              <Text style={styles.sectionTitle}>Share Your Year</Text>
+              <View ref={shareCardRef} collapsable={false} style={styles.shareCard}>
+                <LinearGradient
+                  colors={[theme.colors.gradientStart, theme.colors.gradientEnd]}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.shareGradient}
+                >
+                  <Text style={styles.shareYear}>{recap.year}</Text>
+                  <Text style={styles.shareSubtitle}>My year in live music</Text>
+                  <View style={styles.shareStats}>
+                    <View style={styles.shareStat}>
+                      <Text style={styles.shareStatValue}>{recap.totalShows}</Text>
+                      <Text style={styles.shareStatLabel}>Shows</Text>
+                    </View>
+                    <View style={styles.shareStat}>
+                      <Text style={styles.shareStatValue}>{recap.newArtists.length}</Text>
+                      <Text style={styles.shareStatLabel}>New Artists</Text>
+                    </View>
+                    <View style={styles.shareStat}>
+                      <Text style={styles.shareStatValue}>{recap.milesTraveled.toLocaleString()}</Text>
+                      <Text style={styles.shareStatLabel}>Miles</Text>
+                    </View>
+                  </View>
+                  {recap.topRatedShow && (
+                    <Text style={styles.shareHighlight}>Show of the year: {formatShow(recap.topRatedShow)}</Text>
+                  )}
+                  <Text style={styles.shareFooter}>HarmonyHub</Text>
+                </LinearGradient>
+              </View>
+              <Button
+                title="Share Image"
+                onPress={handleShare}
+                loading={sharing}
+                variant="gradient"
+                size="lg"
+                fullWidth
+                style={styles.shareButton}
+              />
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  gradient: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingVertical: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: theme.spacing.lg,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  yearRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+  },
+  card: {
+    padding: theme.spacing.lg,
+    marginHorizontal: theme.spacing.lg,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  progressSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.outline,
+  },
+  progressSegmentActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  story: {
+    marginBottom: theme.spacing.xl,
+  },
+  slide: {
+    width: SCREEN_WIDTH,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  slideGradient: {
+    height: 420,
+    borderRadius: theme.borderRadius.xl,
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  slideEyebrow: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.surface,
+    textAlign: 'center',
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+    opacity: 0.9,
+  },
+  slideHeadline: {
+    fontSize: theme.typography.fontSize.xxxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.surface,
+    textAlign: 'center',
+  },
+  slideDetail: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.surface,
+    textAlign: 'center',
+    marginTop: theme.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  shareCard: {
+    marginHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.xl,
+    overflow: 'hidden',
+  },
+  shareGradient: {
+    aspectRatio: 1,
+    padding: theme.spacing.xl,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shareYear: {
+    fontSize: 56,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.surface,
+  },
+  shareSubtitle: {
+    fontSize: theme.typography.fontSize.lg,
+    color: theme.colors.surface,
+    marginBottom: theme.spacing.lg,
+  },
+  shareStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignSelf: 'stretch',
+    marginBottom: theme.spacing.lg,
+  },
+  shareStat: {
+    alignItems: 'center',
+  },
+  shareStatValue: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: theme.typography.fontWeight.bold as any,
+    color: theme.colors.surface,
+  },
+  shareStatLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.surface,
+  },
+  shareHighlight: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.surface,
+    textAlign: 'center',
+  },
+  shareFooter: {
+    position: 'absolute',
+    bottom: theme.spacing.md,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold as any,
+    color: theme.colors.surface,
+    opacity: 0.8,
+  },
+  shareButton: {
+    marginTop: theme.spacing.lg,
+    marginHorizontal: theme.spacing.lg,
+  },
+});
+
+export default YearInReviewScreen;
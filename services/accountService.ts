@@ -0,0 +1,28 @@
+import { httpsCallable } from 'firebase/functions';
+import { getFunctions } from 'firebase/functions';
+
+const functions = getFunctions();
+
+export interface DataExport {
+  jsonUrl: string;
+  csvUrl: string;
+  exportedAt: string;
+  counts: {
+    concerts: number;
+    reviews: number;
+    comments: number;
+  };
+}
+
+// Ask the backend to assemble a downloadable copy of everything stored about the user
+export const requestDataExport = async (userId: string): Promise<DataExport> => {
+  try {
+    // Large histories take a while to assemble, so allow longer than the default 70s
+    const exportUserDataFunction = httpsCallable(functions, 'exportUserData', { timeout: 300000 });
+    const result = await exportUserDataFunction({ userId });
+    return result.data as DataExport;
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    throw error;
+  }
+};
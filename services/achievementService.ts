@@ -0,0 +1,60 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Achievement } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+import { showSuccessToast } from '../components/Toast';
+
+const toAchievement = (id: string, data: any): Achievement => ({
+  id,
+  title: data.title,
+  description: data.description,
+  icon: data.icon,
+  // Null for an instant after the function writes it, until the server timestamp resolves
+  earnedAt: data.earnedAt ? data.earnedAt.toDate() : new Date(),
+  announced: !!data.announced,
+});
+
+// Badges the user has earned, most recent first
+export const getUserAchievements = async (userId: string): Promise<Achievement[]> => {
+  return executeWithRetry(async () => {
+    const q = query(collection(db, 'users', userId, 'achievements'), orderBy('earnedAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((docSnap) => toAchievement(docSnap.id, docSnap.data()));
+  }, 'getUserAchievements').catch((error) => {
+    console.error('Error getting achievements:', error);
+    return [];
+  });
+};
+
+// Toast every badge awarded since the last check, then mark them so they only show once
+export const announceNewAchievements = async (userId: string): Promise<Achievement[]> => {
+  return executeWithRetry(async () => {
+    const q = query(collection(db, 'users', userId, 'achievements'), where('announced', '==', false));
+    const querySnapshot = await getDocs(q);
+    const achievements = querySnapshot.docs.map((docSnap) => toAchievement(docSnap.id, docSnap.data()));
+
+    achievements.forEach((achievement) => {
+      showSuccessToast(`Badge unlocked: ${achievement.title}`);
+    });
+
+    await Promise.all(
+      achievements.map((achievement) =>
+        updateDoc(doc(db, 'users', userId, 'achievements', achievement.id), { announced: true })
+      )
+    );
+
+    return achievements;
+  }, 'announceNewAchievements').catch((error) => {
+    console.error('Error announcing achievements:', error);
+    return [];
+  });
+};
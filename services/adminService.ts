@@ -0,0 +1,45 @@
+import { httpsCallable } from 'firebase/functions';
+import { getFunctions } from 'firebase/functions';
+
+const functions = getFunctions();
+
+export interface DuplicateGroup {
+  normalizedName: string;
+  entries: { id: string; name: string }[];
+}
+
+// List artists or venues whose names normalize to the same key (admin only)
+export const findDuplicates = async (kind: 'artists' | 'venues'): Promise<DuplicateGroup[]> => {
+  try {
+    const findDuplicatesFunction = httpsCallable(functions, 'findDuplicates');
+    const result = await findDuplicatesFunction({ kind });
+    return (result.data as { duplicates: DuplicateGroup[] }).duplicates;
+  } catch (error) {
+    console.error('Error finding duplicates:', error);
+    throw error;
+  }
+};
+
+// Merge duplicate artists into the survivor, rewriting every reference to them (admin only)
+export const mergeArtists = async (survivorId: string, duplicateIds: string[]) => {
+  try {
+    const mergeArtistsFunction = httpsCallable(functions, 'mergeArtists');
+    const result = await mergeArtistsFunction({ survivorId, duplicateIds });
+    return result.data;
+  } catch (error) {
+    console.error('Error merging artists:', error);
+    throw error;
+  }
+};
+
+// Merge duplicate venues into the survivor, rewriting every reference to them (admin only)
+export const mergeVenues = async (survivorId: string, duplicateIds: string[]) => {
+  try {
+    const mergeVenuesFunction = httpsCallable(functions, 'mergeVenues');
+    const result = await mergeVenuesFunction({ survivorId, duplicateIds });
+    return result.data;
+  } catch (error) {
+    console.error('Error merging venues:', error);
+    throw error;
+  }
+};
@@ -10,7 +10,9 @@ export const ANALYTICS_EVENTS = {
 
   // Concert-related events
   CONCERT_LOGGED: 'concert_logged',
+  CONCERTS_IMPORTED: 'concerts_imported',
   CONCERT_VIEWED: 'concert_viewed',
+  YEAR_IN_REVIEW_SHARED: 'year_in_review_shared',
 
   // Review and social events
   REVIEW_POSTED: 'review_posted',
@@ -103,6 +105,20 @@ export const logConcertLogged = async (concertId: string, artistName: string, ve
   });
 };
 
+export const logConcertsImported = async (count: number, format: string) => {
+  await logAnalyticsEvent(ANALYTICS_EVENTS.CONCERTS_IMPORTED, {
+    concert_count: count,
+    import_format: format,
+  });
+};
+
+export const logYearInReviewShared = async (year: number, showCount: number) => {
+  await logAnalyticsEvent(ANALYTICS_EVENTS.YEAR_IN_REVIEW_SHARED, {
+    recap_year: year,
+    concert_count: showCount,
+  });
+};
+
 export const logReviewPosted = async (concertId: string, rating: number) => {
   await logAnalyticsEvent(ANALYTICS_EVENTS.REVIEW_POSTED, {
     concert_id: concertId,
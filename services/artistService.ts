@@ -0,0 +1,71 @@
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Concert, Review } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+import { parseMedia } from './mediaService';
+
+const toConcert = (docSnap: QueryDocumentSnapshot<DocumentData>): Concert => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    date: data.date.toDate(),
+    createdAt: data.createdAt.toDate(),
+    updatedAt: data.updatedAt.toDate(),
+    media: parseMedia(data.media),
+  } as Concert;
+};
+
+// Every attendance log where the artist was on the bill, across all users, newest first
+export const getArtistConcerts = async (artistRef: string): Promise<Concert[]> => {
+  return executeWithRetry(async () => {
+    // Concerts logged before lineups only carry the headliner's artistRef
+    const [lineupSnapshot, headlinerSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'concerts'), where('artistRefs', 'array-contains', artistRef))),
+      getDocs(query(collection(db, 'concerts'), where('artistRef', '==', artistRef))),
+    ]);
+
+    const concerts = new Map<string, Concert>();
+    [...lineupSnapshot.docs, ...headlinerSnapshot.docs].forEach((docSnap) => {
+      concerts.set(docSnap.id, toConcert(docSnap));
+    });
+
+    return Array.from(concerts.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, 'getArtistConcerts');
+};
+
+// Most-liked reviews of shows the artist played
+export const getArtistTopReviews = async (artistRef: string, count: number = 5): Promise<Review[]> => {
+  return executeWithRetry(async () => {
+    const q = query(
+      collection(db, 'reviews'),
+      where('artistRefs', 'array-contains', artistRef),
+      orderBy('likesCount', 'desc'),
+      limit(count)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate(),
+        media: parseMedia(data.media),
+      } as Review;
+    });
+  }, 'getArtistTopReviews').catch((error) => {
+    console.error('Error getting artist reviews:', error);
+    return [];
+  });
+};
@@ -1,7 +1,16 @@
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut, User } from 'firebase/auth';
+import {
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
+  User,
+} from 'firebase/auth';
 import { doc, setDoc } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { auth, db } from '../firebaseConfig';
 import { logUserSignUp, logUserLogin, setUserId } from './analyticsService';
+import { unregisterPushToken } from './pushService';
 import { showErrorToast } from '../components/Toast';
 
 export const signUp = async (email: string, password: string): Promise<User> => {
@@ -49,6 +58,8 @@ export const signIn = async (email: string, password: string): Promise<User> =>
 
 export const signOutUser = async (): Promise<void> => {
   try {
+    // This device stops getting the signed-out user's pushes
+    await unregisterPushToken();
     await signOut(auth);
     // Clear user ID from analytics
     await setUserId(null);
@@ -58,3 +69,31 @@ export const signOutUser = async (): Promise<void> => {
     throw error;
   }
 };
+
+// Permanently delete the signed-in user's account and everything they've stored.
+// The backend insists on a fresh sign-in, so the password is re-checked first.
+export const deleteAccount = async (password: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user || !user.email) {
+    throw new Error('You must be signed in to delete your account');
+  }
+
+  try {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+
+    // Cascading cleanup can take a while for long histories
+    const deleteAccountFunction = httpsCallable(getFunctions(), 'deleteAccount', { timeout: 540000 });
+    await deleteAccountFunction({ userId: user.uid });
+
+    // The auth account no longer exists server-side; clear the local session too
+    await signOut(auth);
+    await setUserId(null);
+  } catch (error: any) {
+    console.error('Delete account error:', error);
+    const message = error.code === 'auth/wrong-password' || error.code === 'auth/invalid-credential'
+      ? 'Incorrect password'
+      : error.message || 'Failed to delete account';
+    showErrorToast(message);
+    throw new Error(message);
+  }
+};
@@ -0,0 +1,18 @@
+import { httpsCallable } from 'firebase/functions';
+import { getFunctions } from 'firebase/functions';
+import { TasteCompatibility } from '../types';
+
+const functions = getFunctions();
+
+// How well the signed-in user's concert history matches another user's. The backend caches
+// the result per pair, so repeat profile visits don't re-read both histories.
+export const getTasteCompatibility = async (otherUserId: string): Promise<TasteCompatibility> => {
+  try {
+    const getTasteCompatibilityFunction = httpsCallable(functions, 'getTasteCompatibility');
+    const result = await getTasteCompatibilityFunction({ otherUserId });
+    return result.data as TasteCompatibility;
+  } catch (error) {
+    console.error('Error getting taste compatibility:', error);
+    throw error;
+  }
+};
@@ -10,96 +10,251 @@ import {
   limit,
   updateDoc,
   increment,
+  runTransaction,
   Timestamp,
+  onSnapshot,
+  QueryDocumentSnapshot,
+  Unsubscribe,
 } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { getFunctions } from 'firebase/functions';
 import { db } from '../firebaseConfig';
-import { Concert, Artist, Venue, Review, User } from '../types';
+import {
+  Concert,
+  Artist,
+  Venue,
+  VenueDetails,
+  Review,
+  User,
+  LogConcertFormData,
+  SetlistSong,
+  LineupAct,
+  LineupActFormData,
+} from '../types';
+import { buildEventId, ensureEvent, EventIdentity } from './eventService';
+import { parseMedia } from './mediaService';
 import { logConcertLogged } from './analyticsService';
 import { showErrorToast } from '../components/Toast';
-import { executeWithRetry } from './firebaseConnection';
+import { executeWithRetry, subscribeWithConnection } from './firebaseConnection';
+import { normalizeName } from '../utils/normalize';
 
 const functions = getFunctions();
 
+// Find an artist or venue by its normalized name, then by its aliases, then by exact
+// name for documents created before names were normalized
+const findByName = async (
+  collectionName: 'artists' | 'venues',
+  name: string
+): Promise<string | null> => {
+  const normalizedName = normalizeName(name);
+  const candidates = [
+    query(collection(db, collectionName), where('normalizedName', '==', normalizedName), limit(1)),
+    query(collection(db, collectionName), where('normalizedAliases', 'array-contains', normalizedName), limit(1)),
+    query(collection(db, collectionName), where('name', '==', name), limit(1)),
+  ];
+
+  for (const candidate of candidates) {
+    const querySnapshot = await getDocs(candidate);
+    if (!querySnapshot.empty) {
+      return querySnapshot.docs[0].ref.path;
+    }
+  }
+
+  return null;
+};
+
 export const findOrCreateArtist = async (artistName: string): Promise<string> => {
   return executeWithRetry(async () => {
+    const name = artistName.trim();
+
     // Check if artist exists
-    const q = query(collection(db, 'artists'), where('name', '==', artistName));
-    const querySnapshot = await getDocs(q);
+    const existingRef = await findByName('artists', name);
+    if (existingRef) {
+      return existingRef;
+    }
 
-    if (!querySnapshot.empty) {
-      // Artist exists, return the document reference
-      return querySnapshot.docs[0].ref.path;
-    } else {
-      // Artist doesn't exist, create new one
-      const artistData = {
-        name: artistName,
-        createdAt: Timestamp.now(),
-      };
+    // Artist doesn't exist, create new one
+    const artistData = {
+      name,
+      normalizedName: normalizeName(name),
+      aliases: [],
+      normalizedAliases: [],
+      createdAt: Timestamp.now(),
+    };
 
-      const docRef = await addDoc(collection(db, 'artists'), artistData);
-      return docRef.path;
-    }
+    const docRef = await addDoc(collection(db, 'artists'), artistData);
+    return docRef.path;
   }, 'findOrCreateArtist');
 };
 
-export const findOrCreateVenue = async (venueName: string): Promise<string> => {
-  return executeWithRetry(async () => {
-    // For now, create a basic venue with minimal info
-    // In a real app, you'd want to collect more venue details
-    const q = query(collection(db, 'venues'), where('name', '==', venueName));
-    const querySnapshot = await getDocs(q);
+// Drop empty fields, which Firestore would otherwise reject or store as noise
+const sanitizeVenueDetails = (details: VenueDetails = {}): VenueDetails => {
+  const sanitized: Record<string, string | number> = {};
+  Object.entries(details).forEach(([field, value]) => {
+    if (typeof value === 'string' && value.trim()) sanitized[field] = value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) sanitized[field] = value;
+  });
+  return sanitized as VenueDetails;
+};
 
-    if (!querySnapshot.empty) {
-      // Venue exists, return the document reference
-      return querySnapshot.docs[0].ref.path;
-    } else {
-      // Venue doesn't exist, create new one with minimal info
-      const venueData = {
-        name: venueName,
-        city: 'Unknown', // Placeholder
-        state: 'Unknown', // Placeholder
-        country: 'Unknown', // Placeholder
-        createdAt: Timestamp.now(),
-      };
+// Fill in whatever location details an existing venue is still missing
+const fillMissingVenueDetails = async (venueRef: string, details?: VenueDetails) => {
+  const venueDetails = sanitizeVenueDetails(details);
+  if (Object.keys(venueDetails).length === 0) return;
+
+  const existing = (await getDoc(doc(db, venueRef))).data() || {};
+  const missing = Object.fromEntries(
+    Object.entries(venueDetails).filter(([field]) =>
+      existing[field] === undefined || existing[field] === '' || existing[field] === 'Unknown')
+  );
+  if (Object.keys(missing).length > 0) {
+    await updateDoc(doc(db, venueRef), missing);
+  }
+};
 
-      const docRef = await addDoc(collection(db, 'venues'), venueData);
-      return docRef.path;
+export const findOrCreateVenue = async (venueName: string, details?: VenueDetails): Promise<string> => {
+  return executeWithRetry(async () => {
+    const name = venueName.trim();
+    const venueDetails = sanitizeVenueDetails(details);
+
+    // Check if venue exists
+    const existingRef = await findByName('venues', name);
+    if (existingRef) {
+      await fillMissingVenueDetails(existingRef, venueDetails);
+      return existingRef;
     }
+
+    // Venue doesn't exist, create new one with whatever details search gave us
+    const venueData = {
+      name,
+      normalizedName: normalizeName(name),
+      aliases: [],
+      normalizedAliases: [],
+      ...venueDetails,
+      createdAt: Timestamp.now(),
+    };
+
+    const docRef = await addDoc(collection(db, 'venues'), venueData);
+    return docRef.path;
   }, 'findOrCreateVenue');
 };
 
+// Resolve every act on the bill to an artist document, headliner first
+export const findOrCreateLineup = async (
+  headlinerName: string,
+  acts: LineupActFormData[] = []
+): Promise<LineupAct[]> => {
+  const lineup: LineupAct[] = [
+    {
+      artistRef: await findOrCreateArtist(headlinerName),
+      artistName: headlinerName,
+      role: 'headliner',
+    },
+  ];
+
+  for (const act of acts) {
+    const artistName = act.artistName.trim();
+    if (!artistName) continue;
+
+    const artistRef = await findOrCreateArtist(artistName);
+
+    // An artist only appears once per bill, even if typed twice
+    if (lineup.some((existing) => existing.artistRef === artistRef)) continue;
+
+    const entry: LineupAct = { artistRef, artistName, role: act.role };
+    if (act.stage?.trim()) entry.stage = act.stage.trim();
+    if (act.setTime?.trim()) entry.setTime = act.setTime.trim();
+    if (act.rating) entry.rating = act.rating;
+
+    lineup.push(entry);
+  }
+
+  return lineup;
+};
+
+// Denormalized lineup fields stored on the concert so every act counts as "seen"
+export const buildLineupFields = (lineup: LineupAct[]) => ({
+  artistRef: lineup[0].artistRef,
+  artistName: lineup[0].artistName,
+  artistRefs: lineup.map((act) => act.artistRef),
+  artistNames: lineup.map((act) => act.artistName),
+  lineup,
+});
+
+// Trim setlist entries and drop empty/undefined values (Firestore rejects undefined fields)
+export const sanitizeSetlist = (setlist: SetlistSong[]): SetlistSong[] => {
+  return setlist
+    .filter((song) => song.title.trim().length > 0)
+    .map((song) => {
+      const entry: SetlistSong = {
+        title: song.title.trim(),
+        set: Math.max(0, song.set || 0),
+      };
+
+      if (song.isCover) {
+        entry.isCover = true;
+        if (song.originalArtist?.trim()) {
+          entry.originalArtist = song.originalArtist.trim();
+        }
+      }
+      if (song.segueInto) entry.segueInto = true;
+      if (song.isTape) entry.isTape = true;
+      if (song.notes?.trim()) entry.notes = song.notes.trim();
+
+      return entry;
+    });
+};
+
 export const logConcert = async (
   userId: string,
-  artistName: string,
-  venueName: string,
-  date: Date,
-  rating: number,
-  notes?: string
+  formData: LogConcertFormData
 ): Promise<string> => {
   return executeWithRetry(async () => {
-    // Find or create artist and venue
-    const artistRef = await findOrCreateArtist(artistName);
-    const venueRef = await findOrCreateVenue(venueName);
+    const {
+      artistName,
+      venueName,
+      venueDetails,
+      date,
+      rating,
+      notes,
+      setlist,
+      lineup: acts,
+      festivalName,
+    } = formData;
+
+    // Find or create every act on the bill and the venue
+    const lineup = await findOrCreateLineup(artistName, acts);
+    const venueRef = await findOrCreateVenue(venueName, venueDetails);
+
+    // This attendance belongs to the shared event for the show
+    const identity: EventIdentity = { lineup, venueRef, venueName, date, festivalName: festivalName?.trim() };
+    const eventRef = doc(db, 'events', buildEventId(identity));
 
-    // Create concert document
+    // Create concert document (one per attendance, however many acts played)
     const concertData = {
-      artistRef,
+      ...buildLineupFields(lineup),
+      eventRef: eventRef.path,
+      festivalName: festivalName?.trim() || '',
       venueRef,
+      venueName,
       date: Timestamp.fromDate(date),
       userRef: doc(db, 'users', userId).path,
       rating,
       notes: notes || '',
+      setlist: sanitizeSetlist(setlist || []),
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
     };
 
-    const concertDocRef = await addDoc(collection(db, 'concerts'), concertData);
+    // The concert, its event (if it's the first log of the show) and the user's logged concerts
+    // count are written together; the event's attendance is counted server-side
+    const concertDocRef = doc(collection(db, 'concerts'));
+    await runTransaction(db, async (transaction) => {
+      const eventDoc = await transaction.get(eventRef);
 
-    // Update user's logged concerts count
-    await updateDoc(doc(db, 'users', userId), {
-      loggedConcertsCount: increment(1),
+      ensureEvent(transaction, eventDoc, identity);
+      transaction.set(concertDocRef, concertData);
+      transaction.update(doc(db, 'users', userId), { loggedConcertsCount: increment(1) });
     });
 
     // Log analytics event
@@ -109,6 +264,126 @@ export const logConcert = async (
   }, 'logConcert');
 };
 
+// Update an existing concert owned by the user
+export const updateConcert = async (
+  concertId: string,
+  userId: string,
+  updates: Partial<LogConcertFormData>
+): Promise<void> => {
+  return executeWithRetry(async () => {
+    const concert = await getConcertById(concertId);
+    if (!concert) {
+      throw new Error('Concert not found');
+    }
+
+    const userRef = doc(db, 'users', userId).path;
+    if (concert.userRef !== userRef) {
+      throw new Error('You can only edit your own concerts');
+    }
+
+    const concertUpdates: Record<string, any> = {
+      updatedAt: Timestamp.now(),
+    };
+
+    // Re-resolve the lineup and venue so corrected names point at the right documents
+    if (updates.artistName !== undefined || updates.lineup !== undefined) {
+      const headlinerName = updates.artistName
+        ?? concert.artistName
+        ?? (await getArtistByRef(concert.artistRef))?.name;
+      if (!headlinerName) {
+        throw new Error('Headliner name is required');
+      }
+
+      const acts: LineupActFormData[] = updates.lineup
+        ?? (concert.lineup || [])
+          .filter((act) => act.role !== 'headliner')
+          .map(({ artistName, role, stage, setTime, rating }) => ({
+            artistName,
+            role: role as LineupActFormData['role'],
+            stage,
+            setTime,
+            rating,
+          }));
+
+      Object.assign(concertUpdates, buildLineupFields(await findOrCreateLineup(headlinerName, acts)));
+    }
+    if (updates.festivalName !== undefined) {
+      concertUpdates.festivalName = updates.festivalName.trim();
+    }
+    if (updates.venueName !== undefined) {
+      concertUpdates.venueRef = await findOrCreateVenue(updates.venueName, updates.venueDetails);
+      concertUpdates.venueName = updates.venueName;
+    } else if (updates.venueDetails !== undefined) {
+      // Same venue, with location details picked from search
+      await fillMissingVenueDetails(concert.venueRef, updates.venueDetails);
+    }
+    if (updates.date !== undefined) {
+      concertUpdates.date = Timestamp.fromDate(updates.date);
+    }
+    // The owner's own review picks up a new rating server-side (see syncConcertReviews)
+    if (updates.rating !== undefined) {
+      concertUpdates.rating = updates.rating;
+    }
+    if (updates.notes !== undefined) {
+      concertUpdates.notes = updates.notes;
+    }
+    if (updates.setlist !== undefined) {
+      concertUpdates.setlist = sanitizeSetlist(updates.setlist);
+    }
+
+    // Changing who, where or when can turn this into a different show
+    const identityChanged = ['artistName', 'lineup', 'venueName', 'date', 'festivalName']
+      .some((field) => updates[field as keyof LogConcertFormData] !== undefined);
+    let nextEvent: EventIdentity | undefined;
+
+    if (identityChanged) {
+      const identity: EventIdentity = {
+        lineup: concertUpdates.lineup ?? concert.lineup ?? [{
+          artistRef: concert.artistRef,
+          artistName: concert.artistName || '',
+          role: 'headliner' as const,
+        }],
+        venueRef: concertUpdates.venueRef ?? concert.venueRef,
+        venueName: concertUpdates.venueName ?? concert.venueName ?? '',
+        date: updates.date ?? concert.date,
+        festivalName: concertUpdates.festivalName ?? concert.festivalName,
+      };
+
+      if (!concert.eventRef || concert.eventRef !== `events/${buildEventId(identity)}`) {
+        nextEvent = identity;
+      }
+    }
+
+    const concertRef = doc(db, 'concerts', concertId);
+    if (nextEvent) {
+      // The new event must exist alongside the concert; the attendance moves over server-side
+      const identity = nextEvent;
+      const eventRef = doc(db, 'events', buildEventId(identity));
+
+      await runTransaction(db, async (transaction) => {
+        const eventDoc = await transaction.get(eventRef);
+
+        ensureEvent(transaction, eventDoc, identity);
+        transaction.update(concertRef, { ...concertUpdates, eventRef: eventRef.path });
+      });
+    } else {
+      await updateDoc(concertRef, concertUpdates);
+    }
+  }, 'updateConcert');
+};
+
+// Delete a concert together with its reviews, likes and comments (using Cloud Function for atomic operations)
+export const deleteConcert = async (concertId: string, userId: string) => {
+  try {
+    const deleteConcertFunction = httpsCallable(functions, 'deleteConcert');
+    const result = await deleteConcertFunction({ concertId, userId });
+    return result.data;
+  } catch (error) {
+    console.error('Error deleting concert:', error);
+    throw error;
+  }
+};
+
 export const getArtistByRef = async (artistRef: string): Promise<Artist | null> => {
   try {
     const artistDoc = await getDoc(doc(db, artistRef));
@@ -180,6 +455,7 @@ export const getConcertById = async (concertId: string): Promise<Concert | null>
         date: data.date.toDate(),
         createdAt: data.createdAt.toDate(),
         updatedAt: data.updatedAt.toDate(),
+        media: parseMedia(data.media),
       } as Concert;
     }
     return null;
@@ -189,50 +465,62 @@ export const getConcertById = async (concertId: string): Promise<Concert | null>
   }
 };
 
-// Submit a review for a concert
+// One review per user per concert; the createReview function uses the same scheme
+export const buildReviewId = (concertId: string, userId: string) => `${concertId}_${userId}`;
+
+// Post a review through the createReview function, which rejects a second review of the same
+// concert with an 'already-exists' error whose details carry the existing review's ID
 export const submitReview = async (
   concertId: string,
   userId: string,
-  rating: number,
-  text: string
+  text: string,
+  rating?: number
 ): Promise<string> => {
   try {
-    // First, get the concert to copy the rating if it's the user's own concert
-    const concert = await getConcertById(concertId);
-    if (!concert) {
-      throw new Error('Concert not found');
-    }
-
-    // Use the concert's rating if it's the user's own concert, otherwise use provided rating
-    const reviewRating = concert.userRef.endsWith(userId) ? concert.rating : rating;
-
-    const reviewData = {
-      concertRef: doc(db, 'concerts', concertId).path,
-      userRef: doc(db, 'users', userId).path,
-      text: text.trim(),
-      rating: reviewRating,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-      likesCount: 0,
-      commentsCount: 0,
-    };
-
-    const docRef = await addDoc(collection(db, 'reviews'), reviewData);
-    return docRef.id;
+    const createReviewFunction = httpsCallable(functions, 'createReview');
+    const result = await createReviewFunction({ concertId, userId, rating, text });
+    return (result.data as { reviewId: string }).reviewId;
   } catch (error) {
     console.error('Error submitting review:', error);
     throw error;
   }
 };
 
-// Get all reviews for a concert
-export const getConcertReviews = async (concertId: string): Promise<{ reviews: Review[]; usingFallback: boolean }> => {
+// The user's review of a concert, if they've written one
+export const getUserReviewForConcert = async (concertId: string, userId: string): Promise<string | null> => {
+  try {
+    const reviewDoc = await getDoc(doc(db, 'reviews', buildReviewId(concertId, userId)));
+    if (reviewDoc.exists()) {
+      return reviewDoc.id;
+    }
+
+    // Reviews posted before IDs were deterministic
+    const legacyQuery = query(
+      collection(db, 'reviews'),
+      where('concertRef', '==', doc(db, 'concerts', concertId).path),
+      where('userRef', '==', doc(db, 'users', userId).path),
+      limit(1)
+    );
+    const legacySnapshot = await getDocs(legacyQuery);
+    return legacySnapshot.empty ? null : legacySnapshot.docs[0].id;
+  } catch (error) {
+    console.error('Error getting user review:', error);
+    return null;
+  }
+};
+
+// Get all reviews whose concertRef/eventRef matches, newest first
+const getReviewsByRef = async (
+  field: 'concertRef' | 'eventRef',
+  refPath: string,
+  operationName: string
+): Promise<{ reviews: Review[]; usingFallback: boolean }> => {
   return executeWithRetry(async () => {
     try {
       // Try the optimized query with composite index first
       const q = query(
         collection(db, 'reviews'),
-        where('concertRef', '==', doc(db, 'concerts', concertId).path),
+        where(field, '==', refPath),
         orderBy('createdAt', 'desc')
       );
 
@@ -246,6 +534,7 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
           ...data,
           createdAt: data.createdAt.toDate(),
           updatedAt: data.updatedAt.toDate(),
+          media: parseMedia(data.media),
         } as Review);
       });
 
@@ -258,7 +547,7 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
         // Fallback: Get reviews without ordering (sort in memory)
         const fallbackQuery = query(
           collection(db, 'reviews'),
-          where('concertRef', '==', doc(db, 'concerts', concertId).path)
+          where(field, '==', refPath)
         );
 
         const querySnapshot = await getDocs(fallbackQuery);
@@ -271,6 +560,7 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
             ...data,
             createdAt: data.createdAt.toDate(),
             updatedAt: data.updatedAt.toDate(),
+            media: parseMedia(data.media),
           } as Review);
         });
 
@@ -288,7 +578,7 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
         // Fallback for missing index
         const fallbackQuery = query(
           collection(db, 'reviews'),
-          where('concertRef', '==', doc(db, 'concerts', concertId).path)
+          where(field, '==', refPath)
         );
 
         const querySnapshot = await getDocs(fallbackQuery);
@@ -301,6 +591,7 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
             ...data,
             createdAt: data.createdAt.toDate(),
             updatedAt: data.updatedAt.toDate(),
+            media: parseMedia(data.media),
           } as Review);
         });
 
@@ -314,7 +605,81 @@ export const getConcertReviews = async (concertId: string): Promise<{ reviews: R
       // Re-throw if it's a different error
       throw error;
     }
-  }, 'getConcertReviews');
+  }, operationName);
+};
+
+// Get all reviews for a concert
+export const getConcertReviews = async (concertId: string): Promise<{ reviews: Review[]; usingFallback: boolean }> => {
+  return getReviewsByRef('concertRef', doc(db, 'concerts', concertId).path, 'getConcertReviews');
+};
+
+// Get the reviews from everyone who attended the same event
+export const getEventReviews = async (eventRef: string): Promise<{ reviews: Review[]; usingFallback: boolean }> => {
+  return getReviewsByRef('eventRef', eventRef, 'getEventReviews');
+};
+
+const parseReview = (docSnap: QueryDocumentSnapshot): Review => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    createdAt: data.createdAt.toDate(),
+    updatedAt: data.updatedAt.toDate(),
+    media: parseMedia(data.media),
+  } as Review;
+};
+
+// Live version of getReviewsByRef: calls onChange with every matching review, newest first,
+// whenever one is posted, edited, liked, commented on or deleted. Like getReviewsByRef it falls
+// back to sorting in memory while the composite index is missing or still building.
+const subscribeToReviewsByRef = (
+  field: 'concertRef' | 'eventRef',
+  refPath: string,
+  onChange: (reviews: Review[], usingFallback: boolean) => void
+): Unsubscribe => {
+  return subscribeWithConnection((onError) => {
+    const reviewsQuery = query(collection(db, 'reviews'), where(field, '==', refPath));
+
+    let unsubscribe = onSnapshot(
+      query(reviewsQuery, orderBy('createdAt', 'desc')),
+      (querySnapshot) => onChange(querySnapshot.docs.map(parseReview), false),
+      (error) => {
+        if (!error.message?.includes('currently building') && !error.message?.includes('requires an index')) {
+          onError(error);
+          return;
+        }
+
+        console.warn('⚠️ Firestore composite index unavailable. Listening with unordered fallback query.');
+        unsubscribe = onSnapshot(
+          reviewsQuery,
+          (querySnapshot) => {
+            const reviews = querySnapshot.docs.map(parseReview);
+            reviews.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+            onChange(reviews, true);
+          },
+          onError
+        );
+      }
+    );
+
+    return () => unsubscribe();
+  }, 'subscribeToReviews');
+};
+
+// Live reviews for a concert
+export const subscribeToConcertReviews = (
+  concertId: string,
+  onChange: (reviews: Review[], usingFallback: boolean) => void
+): Unsubscribe => {
+  return subscribeToReviewsByRef('concertRef', doc(db, 'concerts', concertId).path, onChange);
+};
+
+// Live reviews from everyone who attended the same event
+export const subscribeToEventReviews = (
+  eventRef: string,
+  onChange: (reviews: Review[], usingFallback: boolean) => void
+): Unsubscribe => {
+  return subscribeToReviewsByRef('eventRef', eventRef, onChange);
 };
 
 // Get user details by reference
@@ -358,6 +723,53 @@ export const addCommentToReview = async (reviewId: string, userId: string, comme
   }
 };
 
+// Edit your own review; the backend marks it as edited
+export const editReview = async (reviewId: string, userId: string, text: string, rating?: number) => {
+  try {
+    const editReviewFunction = httpsCallable(functions, 'editReview');
+    const result = await editReviewFunction({ reviewId, userId, text, rating });
+    return result.data;
+  } catch (error) {
+    console.error('Error editing review:', error);
+    throw error;
+  }
+};
+
+// Delete your own review along with its likes, comments and media
+export const deleteReview = async (reviewId: string, userId: string) => {
+  try {
+    const deleteReviewFunction = httpsCallable(functions, 'deleteReview');
+    const result = await deleteReviewFunction({ reviewId, userId });
+    return result.data;
+  } catch (error) {
+    console.error('Error deleting review:', error);
+    throw error;
+  }
+};
+
+export const editComment = async (reviewId: string, commentId: string, userId: string, commentText: string) => {
+  try {
+    const editCommentFunction = httpsCallable(functions, 'editComment');
+    const result = await editCommentFunction({ reviewId, commentId, userId, commentText });
+    return result.data;
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    throw error;
+  }
+};
+
+// Delete a comment you wrote, or one left on your review
+export const deleteComment = async (reviewId: string, commentId: string, userId: string) => {
+  try {
+    const deleteCommentFunction = httpsCallable(functions, 'deleteComment');
+    const result = await deleteCommentFunction({ reviewId, commentId, userId });
+    return result.data;
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+};
+
 // Get comments for a review
 export const getReviewComments = async (reviewId: string): Promise<any[]> => {
   try {
@@ -378,6 +790,7 @@ export const getReviewComments = async (reviewId: string): Promise<any[]> => {
         ...data,
         user: user,
         createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt?.toDate(),
       });
     }
 
@@ -388,6 +801,39 @@ export const getReviewComments = async (reviewId: string): Promise<any[]> => {
   }
 };
 
+// Live comments on a review, oldest first, with their authors looked up like getReviewComments
+export const subscribeToReviewComments = (reviewId: string, onChange: (comments: any[]) => void): Unsubscribe => {
+  const authors = new Map<string, Promise<User | null>>();
+  let latestSnapshot = 0;
+
+  return subscribeWithConnection((onError) => onSnapshot(
+    query(collection(db, 'reviews', reviewId, 'comments'), orderBy('createdAt', 'asc')),
+    async (querySnapshot) => {
+      const snapshotNumber = ++latestSnapshot;
+
+      const comments = await Promise.all(querySnapshot.docs.map(async (docSnap) => {
+        const data = docSnap.data();
+        if (!authors.has(data.userRef)) {
+          authors.set(data.userRef, getUserByRef(data.userRef));
+        }
+
+        return {
+          id: docSnap.id,
+          ...data,
+          user: await authors.get(data.userRef),
+          createdAt: data.createdAt.toDate(),
+          updatedAt: data.updatedAt?.toDate(),
+        };
+      }));
+
+      // A newer snapshot arrived while authors were loading
+      if (snapshotNumber !== latestSnapshot) return;
+      onChange(comments);
+    },
+    onError
+  ), 'subscribeToReviewComments');
+};
+
 // Check if user has liked a review
 export const hasUserLikedReview = async (reviewId: string, userId: string): Promise<boolean> => {
   try {
@@ -0,0 +1,132 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp,
+  DocumentSnapshot,
+  Transaction,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Concert, ConcertEvent, LineupAct, ShowSummary } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+
+export interface EventIdentity {
+  lineup: LineupAct[];
+  venueRef: string;
+  venueName: string;
+  date: Date;
+  festivalName?: string;
+}
+
+// Calendar day of the show in the user's local time, e.g. "2024-05-01"
+export const toEventDay = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Deterministic event ID so everyone logging the same show lands on the same document.
+// Festival days are keyed by venue + day only, since attendees disagree on who "headlined".
+export const buildEventId = ({ lineup, venueRef, date, festivalName }: EventIdentity): string => {
+  const venueId = venueRef.split('/').pop();
+  const headlinerId = lineup[0].artistRef.split('/').pop();
+  const day = toEventDay(date);
+
+  return festivalName ? `${venueId}_${day}_festival` : `${venueId}_${day}_${headlinerId}`;
+};
+
+// A new event for a show. Attendees are counted by syncEventAttendance in
+// functions/src/events.ts once the concert pointing here is written, so it starts at zero.
+export const buildNewEvent = (identity: EventIdentity) => ({
+  headlinerRef: identity.lineup[0].artistRef,
+  artistRefs: identity.lineup.map((act) => act.artistRef),
+  artistNames: identity.lineup.map((act) => act.artistName),
+  venueRef: identity.venueRef,
+  venueName: identity.venueName,
+  date: Timestamp.fromDate(identity.date),
+  day: toEventDay(identity.date),
+  festivalName: identity.festivalName || '',
+  attendeesCount: 0,
+  createdAt: Timestamp.now(),
+});
+
+// Inside a transaction, create the show's event read as eventDoc if nobody has logged it yet.
+// Counting attendees and merging in acts is left to the server.
+export const ensureEvent = (transaction: Transaction, eventDoc: DocumentSnapshot, identity: EventIdentity) => {
+  if (!eventDoc.exists()) {
+    transaction.set(eventDoc.ref, buildNewEvent(identity));
+  }
+};
+
+// Get an event by its reference path
+export const getEventByRef = async (eventRef: string): Promise<ConcertEvent | null> => {
+  try {
+    const eventDoc = await getDoc(doc(db, eventRef));
+    if (eventDoc.exists()) {
+      const data = eventDoc.data();
+      return {
+        id: eventDoc.id,
+        ...data,
+        date: data.date.toDate(),
+        createdAt: data.createdAt.toDate(),
+      } as ConcertEvent;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error getting event:', error);
+    return null;
+  }
+};
+
+// Get every attendance log that points at the event
+export const getEventAttendance = async (eventRef: string): Promise<Concert[]> => {
+  return executeWithRetry(async () => {
+    const q = query(collection(db, 'concerts'), where('eventRef', '==', eventRef));
+    const querySnapshot = await getDocs(q);
+
+    const concerts: Concert[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      concerts.push({
+        id: doc.id,
+        ...data,
+        date: data.date.toDate(),
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate(),
+      } as Concert);
+    });
+
+    return concerts;
+  }, 'getEventAttendance');
+};
+
+// Group attendance logs into shows, newest first. Logs from before shared events existed
+// have no eventRef and stand on their own.
+export const groupConcertsIntoShows = (concerts: Concert[]): ShowSummary[] => {
+  const shows = new Map<string, ShowSummary>();
+
+  concerts.forEach((concert) => {
+    const key = concert.eventRef || concert.id;
+    const show = shows.get(key);
+    if (show) {
+      show.concerts.push(concert);
+      return;
+    }
+
+    shows.set(key, {
+      key,
+      eventRef: concert.eventRef,
+      date: concert.date,
+      venueRef: concert.venueRef,
+      venueName: concert.venueName,
+      artistName: concert.artistName,
+      festivalName: concert.festivalName || undefined,
+      concerts: [concert],
+    });
+  });
+
+  return Array.from(shows.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+};
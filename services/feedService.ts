@@ -5,26 +5,25 @@ import {
   orderBy,
   limit,
   getDocs,
+  getDoc,
   doc,
   collectionGroup,
   setDoc,
   deleteDoc,
+  documentId,
+  startAfter,
+  endBefore,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  onSnapshot,
+  Unsubscribe,
 } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
-import { executeWithRetry } from './firebaseConnection';
-
-interface FeedItem {
-  id: string;
-  type: 'concert_logged' | 'review_posted';
-  userId: string;
-  userDisplayName: string;
-  concertId: string;
-  concertName: string;
-  artistName: string;
-  venueName: string;
-  reviewId?: string;
-  timestamp: Date;
-}
+import { executeWithRetry, subscribeWithConnection } from './firebaseConnection';
+import { getUserByRef } from './concertService';
+import { Concert, FeedItem, FollowedAttendee, User } from '../types';
 
 // Get users that the current user follows
 export const getFollowingUsers = async (userId: string): Promise<string[]> => {
@@ -44,113 +43,144 @@ export const getFollowingUsers = async (userId: string): Promise<string[]> => {
   });
 };
 
-// Get feed activities from followed users
-export const getFeedActivities = async (userId: string): Promise<FeedItem[]> => {
+const FEED_PAGE_SIZE = 20;
+
+// Position in a feed, by value rather than by snapshot so it still works after the entry
+// it points at has been deleted
+export interface FeedCursor {
+  createdAt: Timestamp;
+  id: string;
+}
+
+export interface FeedPage {
+  items: FeedItem[];
+  newest: FeedCursor | null; // First entry fetched, to ask for newer ones later
+  oldest: FeedCursor | null; // Last entry fetched, to continue from
+  hasMore: boolean; // Whether the query may have more beyond this page
+}
+
+// A user's feed, newest first. The document ID breaks createdAt ties so paging never skips
+// or repeats entries logged in the same instant.
+const buildFeedQuery = (userId: string, ...constraints: QueryConstraint[]) => query(
+  collection(db, 'feedItems'),
+  where('recipientRef', '==', doc(db, 'users', userId).path),
+  orderBy('createdAt', 'desc'),
+  orderBy(documentId(), 'desc'),
+  ...constraints,
+  limit(FEED_PAGE_SIZE)
+);
+
+const toFeedCursor = (feedDoc: QueryDocumentSnapshot): FeedCursor => ({
+  createdAt: feedDoc.data().createdAt,
+  id: feedDoc.id,
+});
+
+// Cursors come from the raw query results, not the items kept, so entries dropped here
+// never shorten a page into looking like the end of the feed
+const toFeedPage = (querySnapshot: QuerySnapshot): FeedPage => {
+  const { docs } = querySnapshot;
+
+  return {
+    items: docs
+      .filter((feedDoc) => feedDoc.data().concertRef && feedDoc.data().actorRef)
+      .map((feedDoc) => {
+        const data = feedDoc.data();
+        return {
+          id: feedDoc.id,
+          type: data.type,
+          userId: data.actorRef.split('/').pop() || '',
+          userDisplayName: data.actorDisplayName || 'Unknown User',
+          concertId: data.concertRef.split('/').pop() || '',
+          concertName: data.concertName,
+          artistName: data.artistName,
+          venueName: data.venueName,
+          reviewId: data.reviewRef?.split('/').pop(),
+          timestamp: data.createdAt.toDate(),
+        };
+      }),
+    newest: docs.length > 0 ? toFeedCursor(docs[0]) : null,
+    oldest: docs.length > 0 ? toFeedCursor(docs[docs.length - 1]) : null,
+    hasMore: docs.length === FEED_PAGE_SIZE,
+  };
+};
+
+// Get a page of feed activities from followed users, continuing after `after` if given.
+// Entries are fanned out to each follower by functions/src/feed.ts, so this is one query
+// however many people the user follows.
+export const getFeedPage = async (userId: string, after?: FeedCursor | null): Promise<FeedPage> => {
   return executeWithRetry(async () => {
-    const followingUserIds = await getFollowingUsers(userId);
-
-    if (followingUserIds.length === 0) {
-      return [];
-    }
-
-    const activities: FeedItem[] = [];
-
-    // Get recent concerts from followed users
-    const concertsQuery = query(
-      collection(db, 'concerts'),
-      where('userRef', 'in', followingUserIds.map(id => doc(db, 'users', id).path)),
-      orderBy('createdAt', 'desc'),
-      limit(20)
-    );
-
-    const concertsSnapshot = await getDocs(concertsQuery);
-    for (const concertDoc of concertsSnapshot.docs) {
-      const concertData = concertDoc.data();
-
-      // Get user display name
-      const userDoc = await getDocs(query(
-        collection(db, 'users'),
-        where('__name__', '==', doc(db, concertData.userRef))
-      ));
-
-      let userDisplayName = 'Unknown User';
-      if (!userDoc.empty) {
-        userDisplayName = userDoc.docs[0].data().displayName || 'Unknown User';
-      }
-
-      activities.push({
-        id: `concert_${concertDoc.id}`,
-        type: 'concert_logged',
-        userId: concertData.userRef.split('/').pop() || '',
-        userDisplayName,
-        concertId: concertDoc.id,
-        concertName: `${concertData.artistName} at ${concertData.venueName}`,
-        artistName: concertData.artistName || 'Unknown Artist',
-        venueName: concertData.venueName || 'Unknown Venue',
-        timestamp: concertData.createdAt.toDate(),
-      });
-    }
-
-    // Get recent reviews from followed users
-    const reviewsQuery = query(
-      collection(db, 'reviews'),
-      where('userRef', 'in', followingUserIds.map(id => doc(db, 'users', id).path)),
-      orderBy('createdAt', 'desc'),
-      limit(20)
-    );
-
-    const reviewsSnapshot = await getDocs(reviewsQuery);
-    for (const reviewDoc of reviewsSnapshot.docs) {
-      const reviewData = reviewDoc.data();
-
-      // Get user display name
-      const userDoc = await getDocs(query(
-        collection(db, 'users'),
-        where('__name__', '==', doc(db, reviewData.userRef))
-      ));
-
-      let userDisplayName = 'Unknown User';
-      if (!userDoc.empty) {
-        userDisplayName = userDoc.docs[0].data().displayName || 'Unknown User';
-      }
-
-      // Get concert details
-      const concertDoc = await getDocs(query(
-        collection(db, 'concerts'),
-        where('__name__', '==', doc(db, reviewData.concertRef))
-      ));
-
-      let artistName = 'Unknown Artist';
-      let venueName = 'Unknown Venue';
-      if (!concertDoc.empty) {
-        const concertData = concertDoc.docs[0].data();
-        artistName = concertData.artistName || 'Unknown Artist';
-        venueName = concertData.venueName || 'Unknown Venue';
-      }
-
-      activities.push({
-        id: `review_${reviewDoc.id}`,
-        type: 'review_posted',
-        userId: reviewData.userRef.split('/').pop() || '',
-        userDisplayName,
-        concertId: reviewData.concertRef.split('/').pop() || '',
-        concertName: `${artistName} at ${venueName}`,
-        artistName,
-        venueName,
-        reviewId: reviewDoc.id,
-        timestamp: reviewData.createdAt.toDate(),
-      });
-    }
-
-    // Sort all activities by timestamp (most recent first)
-    activities.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    // Return only the most recent 30 activities
-    return activities.slice(0, 30);
-  }, 'getFeedActivities').catch((error) => {
-    console.error('Error getting feed activities:', error);
-    return [];
+    const feedQuery = after
+      ? buildFeedQuery(userId, startAfter(after.createdAt, after.id))
+      : buildFeedQuery(userId);
+
+    return toFeedPage(await getDocs(feedQuery));
+  }, 'getFeedPage');
+};
+
+// Entries newer than `before`, newest first. If hasMore is set there were more than a page of
+// them, so they don't join up with what's already loaded and the caller should start over
+// from this page.
+export const getNewerFeedItems = async (userId: string, before: FeedCursor): Promise<FeedPage> => {
+  return executeWithRetry(async () => {
+    const feedQuery = buildFeedQuery(userId, endBefore(before.createdAt, before.id));
+    return toFeedPage(await getDocs(feedQuery));
+  }, 'getNewerFeedItems');
+};
+
+// Count entries newer than `before` as they arrive, without loading them into the feed.
+// The count stops at a page; hasMore means there are at least that many.
+export const subscribeToNewFeedItems = (
+  userId: string,
+  before: FeedCursor | null,
+  onChange: (count: number, hasMore: boolean) => void
+): Unsubscribe => {
+  const feedQuery = before
+    ? buildFeedQuery(userId, endBefore(before.createdAt, before.id))
+    : buildFeedQuery(userId);
+
+  return subscribeWithConnection((onError) => onSnapshot(
+    feedQuery,
+    (querySnapshot) => onChange(querySnapshot.size, querySnapshot.size === FEED_PAGE_SIZE),
+    onError
+  ), 'subscribeToNewFeedItems');
+};
+
+// Whether the concert (and review) a feed entry points at still exists. Deleting them removes
+// the entry from feeds, but not from pages the app has already loaded.
+export const feedItemTargetExists = async (item: FeedItem): Promise<boolean> => {
+  return executeWithRetry(async () => {
+    const [concertDoc, reviewDoc] = await Promise.all([
+      getDoc(doc(db, 'concerts', item.concertId)),
+      item.reviewId ? getDoc(doc(db, 'reviews', item.reviewId)) : Promise.resolve(null),
+    ]);
+    return concertDoc.exists() && (!reviewDoc || reviewDoc.exists());
+  }, 'feedItemTargetExists');
+};
+
+// People the user follows who appear in a set of attendance logs, most shows first
+export const getFollowedAttendees = async (userId: string, concerts: Concert[]): Promise<FollowedAttendee[]> => {
+  const followingUserIds = new Set(await getFollowingUsers(userId));
+
+  const showsByUser = new Map<string, Set<string>>();
+  concerts.forEach((concert) => {
+    const attendeeId = concert.userRef.split('/').pop()!;
+    if (!followingUserIds.has(attendeeId)) return;
+
+    const shows = showsByUser.get(concert.userRef) || new Set<string>();
+    shows.add(concert.eventRef || concert.id);
+    showsByUser.set(concert.userRef, shows);
   });
+
+  const attendees = await Promise.all(
+    Array.from(showsByUser.entries()).map(async ([userRef, shows]) => {
+      const user = await getUserByRef(userRef);
+      return user ? { user, showsCount: shows.size } : null;
+    })
+  );
+
+  return attendees
+    .filter((attendee): attendee is { user: User; showsCount: number } => attendee !== null)
+    .sort((a, b) => b.showsCount - a.showsCount);
 };
 
 // Follow a user
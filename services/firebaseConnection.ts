@@ -1,5 +1,5 @@
 import { db } from '../firebaseConfig';
-import { connectFirestoreEmulator, getFirestore, enableNetwork, disableNetwork, waitForPendingWrites } from 'firebase/firestore';
+import { connectFirestoreEmulator, getFirestore, enableNetwork, disableNetwork, waitForPendingWrites, FirestoreError, Unsubscribe } from 'firebase/firestore';
 import Constants from 'expo-constants';
 
 export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
@@ -10,6 +10,9 @@ class FirebaseConnectionManager {
   private isRetrying = false;
   private maxRetries = 3;
   private retryDelay = 1000;
+  private maxListenerRetries = 5;
+  // A listener that stayed attached this long counts as recovered, so its retries start over
+  private listenerRecoveryMs = 60000;
   private connectionListeners: Array<(state: ConnectionState) => void> = [];
 
   constructor() {
@@ -141,6 +144,67 @@ class FirebaseConnectionManager {
     throw lastError;
   }
 
+  // Keep a realtime listener attached while connected. `attach` starts an onSnapshot listener
+  // and returns its unsubscribe; it's detached when the connection drops and attached again
+  // (re-delivering current data) on reconnect. Listeners that fail with a network error are
+  // retried with exponential backoff, up to maxListenerRetries times in a row.
+  public subscribe(
+    attach: (onError: (error: FirestoreError) => void) => Unsubscribe,
+    subscriptionName: string = 'Firebase subscription'
+  ): Unsubscribe {
+    let detach: Unsubscribe | null = null;
+    let active = true;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+
+    const start = () => {
+      retryTimer = null;
+      if (!active || detach || this.connectionState !== 'connected') return;
+
+      const attachedAt = Date.now();
+      detach = attach((error) => {
+        // Firestore has already stopped a listener that reports an error
+        detach = null;
+
+        if (Date.now() - attachedAt >= this.listenerRecoveryMs) {
+          attempt = 0;
+        }
+
+        if (this.isListenerRetryable(error) && attempt < this.maxListenerRetries) {
+          const delay = this.retryDelay * 2 ** attempt;
+          attempt++;
+          console.warn(`${subscriptionName} listener failed, retrying in ${delay}ms:`, error.message);
+          retryTimer = setTimeout(start, delay);
+        } else {
+          console.error(`${subscriptionName} listener failed:`, error);
+        }
+      });
+    };
+
+    const stop = () => {
+      detach?.();
+      detach = null;
+    };
+
+    const removeConnectionListener = this.onConnectionStateChange((state) => {
+      if (state === 'connected') {
+        // A fresh connection gets a fresh set of retries
+        attempt = 0;
+        start();
+      } else {
+        stop();
+      }
+    });
+    start();
+
+    return () => {
+      active = false;
+      if (retryTimer) clearTimeout(retryTimer);
+      removeConnectionListener();
+      stop();
+    };
+  }
+
   private isNetworkError(error: any): boolean {
     const networkErrorCodes = [
       'unavailable',
@@ -158,6 +222,12 @@ class FirebaseConnectionManager {
            errorMessage.includes('connection');
   }
 
+  // A listener's failed-precondition means a missing or still-building index, which retrying
+  // every few seconds won't fix
+  private isListenerRetryable(error: FirestoreError): boolean {
+    return error.code !== 'failed-precondition' && this.isNetworkError(error);
+  }
+
   private async processRetryQueue() {
     if (this.isRetrying || this.connectionState !== 'connected') {
       return;
@@ -215,3 +285,7 @@ export const executeWithRetry = <T>(
   operation: () => Promise<T>,
   operationName?: string
 ) => firebaseConnectionManager.executeWithRetry(operation, operationName);
+export const subscribeWithConnection = (
+  attach: (onError: (error: FirestoreError) => void) => Unsubscribe,
+  subscriptionName?: string
+) => firebaseConnectionManager.subscribe(attach, subscriptionName);
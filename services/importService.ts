@@ -0,0 +1,132 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  writeBatch,
+  increment,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { ConcertImportFormat, ConcertImportResult, LineupAct, LogConcertFormData } from '../types';
+import {
+  findOrCreateArtist,
+  findOrCreateVenue,
+  buildLineupFields,
+  getUserConcerts,
+} from './concertService';
+import { buildEventId, buildNewEvent, toEventDay, EventIdentity } from './eventService';
+import { logConcertsImported } from './analyticsService';
+import { executeWithRetry } from './firebaseConnection';
+import { normalizeName } from '../utils/normalize';
+
+// Each concert takes at most two writes (concert + new event), plus one for the user's count per
+// batch, which keeps a batch well under Firestore's 500 write limit
+const CONCERTS_PER_BATCH = 200;
+
+// Bulk-log previously validated concerts (see utils/concertImport). Artists and venues are resolved
+// the same way as a hand-logged concert; concerts the user already logged are skipped so re-running
+// an import is harmless.
+export const importConcerts = async (
+  userId: string,
+  concerts: LogConcertFormData[],
+  format: ConcertImportFormat,
+  onProgress?: (processed: number, total: number) => void
+): Promise<ConcertImportResult> => {
+  const userRef = doc(db, 'users', userId);
+  const existingConcerts = await getUserConcerts(userId);
+  const loggedEventRefs = new Set(existingConcerts.map((concert) => concert.eventRef).filter(Boolean));
+  // Concerts logged before shared events existed have no eventRef, so match those on the
+  // names and the day instead
+  const toLegacyKey = (artistName: string, venueName: string, date: Date) =>
+    [normalizeName(artistName), normalizeName(venueName), toEventDay(date)].join('|');
+  const legacyKeys = new Set(existingConcerts
+    .filter((concert) => !concert.eventRef)
+    .map((concert) => toLegacyKey(concert.artistName || '', concert.venueName || '', concert.date)));
+
+  // Spreadsheets repeat the same artists and venues a lot; resolve each name once
+  const artistRefs = new Map<string, string>();
+  const venueRefs = new Map<string, string>();
+
+  let imported = 0;
+  let skipped = 0;
+
+  for (let start = 0; start < concerts.length; start += CONCERTS_PER_BATCH) {
+    const chunk = concerts.slice(start, start + CONCERTS_PER_BATCH);
+    const pending: { identity: EventIdentity; concertData: Record<string, any> }[] = [];
+
+    for (const concert of chunk) {
+      const artistKey = normalizeName(concert.artistName);
+      if (!artistRefs.has(artistKey)) {
+        artistRefs.set(artistKey, await findOrCreateArtist(concert.artistName));
+      }
+
+      const venueKey = normalizeName(concert.venueName);
+      if (!venueRefs.has(venueKey)) {
+        venueRefs.set(venueKey, await findOrCreateVenue(concert.venueName, concert.venueDetails));
+      }
+
+      const lineup: LineupAct[] = [
+        { artistRef: artistRefs.get(artistKey)!, artistName: concert.artistName, role: 'headliner' },
+      ];
+      const venueRef = venueRefs.get(venueKey)!;
+      const identity: EventIdentity = { lineup, venueRef, venueName: concert.venueName, date: concert.date };
+      const eventRef = `events/${buildEventId(identity)}`;
+
+      const legacyKey = toLegacyKey(concert.artistName, concert.venueName, concert.date);
+      if (loggedEventRefs.has(eventRef) || legacyKeys.has(legacyKey)) {
+        skipped++;
+        continue;
+      }
+      loggedEventRefs.add(eventRef);
+
+      pending.push({
+        identity,
+        concertData: {
+          ...buildLineupFields(lineup),
+          eventRef,
+          festivalName: '',
+          venueRef,
+          venueName: concert.venueName,
+          date: Timestamp.fromDate(concert.date),
+          userRef: userRef.path,
+          rating: concert.rating,
+          notes: concert.notes || '',
+          setlist: [],
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        },
+      });
+    }
+
+    if (pending.length > 0) {
+      // A WriteBatch can only be committed once, so each attempt builds its own. Shows nobody
+      // has logged yet get their event in the same batch as the concerts, and the user's count
+      // moves with them, so a failed attempt leaves nothing behind. Attendance is counted
+      // server-side once the concerts land.
+      await executeWithRetry(async () => {
+        const eventDocs = await Promise.all(pending.map(({ identity }) =>
+          getDoc(doc(db, 'events', buildEventId(identity)))));
+        const batch = writeBatch(db);
+
+        pending.forEach(({ identity, concertData }, index) => {
+          batch.set(doc(collection(db, 'concerts')), concertData);
+          if (!eventDocs[index].exists()) {
+            batch.set(eventDocs[index].ref, buildNewEvent(identity));
+          }
+        });
+        batch.update(userRef, { loggedConcertsCount: increment(pending.length) });
+
+        await batch.commit();
+      }, 'importConcerts');
+      imported += pending.length;
+    }
+
+    onProgress?.(start + chunk.length, concerts.length);
+  }
+
+  if (imported > 0) {
+    await logConcertsImported(imported, format);
+  }
+
+  return { imported, skipped };
+};
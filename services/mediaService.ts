@@ -0,0 +1,101 @@
+import { doc, getDoc, updateDoc, arrayUnion, Timestamp } from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import * as ImagePicker from 'expo-image-picker';
+import { db, storage } from '../firebaseConfig';
+import { MediaAttachment } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+
+export type MediaOwner = {
+  collection: 'concerts' | 'reviews';
+  id: string;
+};
+
+const MAX_ATTACHMENTS_PER_PICK = 10;
+
+// Let the user pick photos and videos from their library; resolves to [] if they cancel
+export const pickMedia = async (): Promise<ImagePicker.ImagePickerAsset[]> => {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Photo library access is needed to attach photos and videos');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images', 'videos'],
+    allowsMultipleSelection: true,
+    selectionLimit: MAX_ATTACHMENTS_PER_PICK,
+    quality: 0.8,
+  });
+
+  return result.canceled ? [] : result.assets;
+};
+
+// Storage layout mirrored by storage.rules and the generateMediaThumbnail function
+const buildStoragePath = (userId: string, owner: MediaOwner, attachmentId: string) =>
+  `media/${userId}/${owner.collection}/${owner.id}/${attachmentId}`;
+
+// Upload a picked asset and attach it to the concert or review
+export const uploadMedia = async (
+  userId: string,
+  owner: MediaOwner,
+  asset: ImagePicker.ImagePickerAsset
+): Promise<MediaAttachment> => {
+  return executeWithRetry(async () => {
+    const attachmentId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const type = asset.type === 'video' ? 'video' : 'image';
+    const contentType = asset.mimeType || (type === 'video' ? 'video/mp4' : 'image/jpeg');
+    const storagePath = buildStoragePath(userId, owner, attachmentId);
+
+    // React Native's fetch can read local file URIs into a Blob
+    const blob = await (await fetch(asset.uri)).blob();
+    const storageRef = ref(storage, storagePath);
+    await uploadBytes(storageRef, blob, { contentType });
+    const url = await getDownloadURL(storageRef);
+
+    const attachment: Record<string, any> = {
+      id: attachmentId,
+      type,
+      storagePath,
+      url,
+      contentType,
+      createdAt: Timestamp.now(),
+    };
+    if (asset.width) attachment.width = asset.width;
+    if (asset.height) attachment.height = asset.height;
+    if (type === 'video' && asset.duration) attachment.durationMs = asset.duration;
+
+    await updateDoc(doc(db, owner.collection, owner.id), {
+      media: arrayUnion(attachment),
+    });
+
+    return { ...attachment, createdAt: attachment.createdAt.toDate() } as MediaAttachment;
+  }, 'uploadMedia');
+};
+
+// Remove an attachment from its concert or review and delete the file (thumbnails are cleaned up server-side)
+export const removeMedia = async (owner: MediaOwner, attachment: MediaAttachment): Promise<void> => {
+  return executeWithRetry(async () => {
+    const ownerRef = doc(db, owner.collection, owner.id);
+    const ownerDoc = await getDoc(ownerRef);
+    const media: any[] = ownerDoc.data()?.media || [];
+
+    await updateDoc(ownerRef, {
+      media: media.filter((item) => item.id !== attachment.id),
+    });
+
+    try {
+      await deleteObject(ref(storage, attachment.storagePath));
+    } catch (error: any) {
+      // Already gone is as good as deleted
+      if (error.code !== 'storage/object-not-found') {
+        throw error;
+      }
+    }
+  }, 'removeMedia');
+};
+
+// Convert stored attachments (Timestamps) into MediaAttachment objects
+export const parseMedia = (media?: any[]): MediaAttachment[] =>
+  (media || []).map((item) => ({
+    ...item,
+    createdAt: item.createdAt?.toDate ? item.createdAt.toDate() : new Date(item.createdAt),
+  }));
@@ -0,0 +1,73 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { executeWithRetry, subscribeWithConnection } from './firebaseConnection';
+import { AppNotification } from '../types';
+
+const NOTIFICATIONS_LIMIT = 50;
+
+// The badge stops counting here and shows "99+"
+export const MAX_UNREAD_BADGE = 99;
+
+const buildRecipientQuery = (userId: string) =>
+  query(collection(db, 'notifications'), where('recipientRef', '==', doc(db, 'users', userId).path));
+
+// Live list of the user's most recent notifications
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: AppNotification[]) => void
+): Unsubscribe => {
+  return subscribeWithConnection((onError) => onSnapshot(
+    query(buildRecipientQuery(userId), orderBy('updatedAt', 'desc'), limit(NOTIFICATIONS_LIMIT)),
+    (querySnapshot) => {
+      onChange(querySnapshot.docs.map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          ...data,
+          updatedAt: data.updatedAt.toDate(),
+        } as AppNotification;
+      }));
+    },
+    onError
+  ), 'subscribeToNotifications');
+};
+
+// Live count of unread notifications for the tab badge, capped just above MAX_UNREAD_BADGE
+export const subscribeToUnreadCount = (userId: string, onChange: (count: number) => void): Unsubscribe => {
+  return subscribeWithConnection((onError) => onSnapshot(
+    query(buildRecipientQuery(userId), where('read', '==', false), limit(MAX_UNREAD_BADGE + 1)),
+    (querySnapshot) => onChange(querySnapshot.size),
+    onError
+  ), 'subscribeToUnreadCount');
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<void> => {
+  return executeWithRetry(async () => {
+    await updateDoc(doc(db, 'notifications', notificationId), { read: true });
+  }, 'markNotificationRead');
+};
+
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  return executeWithRetry(async () => {
+    const unreadSnapshot = await getDocs(query(buildRecipientQuery(userId), where('read', '==', false)));
+
+    // Batches hold at most 500 writes
+    for (let start = 0; start < unreadSnapshot.docs.length; start += 500) {
+      const batch = writeBatch(db);
+      unreadSnapshot.docs.slice(start, start + 500).forEach((docSnap) => batch.update(docSnap.ref, { read: true }));
+      await batch.commit();
+    }
+  }, 'markAllNotificationsRead');
+};
@@ -0,0 +1,123 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { deleteDoc, doc, getDoc, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { executeWithRetry } from './firebaseConnection';
+import { NotificationPreferences } from '../types';
+
+// Keep in step with DEFAULT_PREFERENCES in functions/src/push.ts
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  follows: true,
+  likes: true,
+  comments: true,
+  friendShows: true,
+  quietHours: { enabled: false, startHour: 22, endHour: 8 },
+  utcOffsetMinutes: 0,
+};
+
+// What a push carries for the app to open on tap, set by functions/src/push.ts
+export interface PushData {
+  type?: string;
+  actorRef?: string;
+  concertRef?: string;
+}
+
+// Pushes that arrive while the app is open still show as banners
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+// The token this device registered, so signing out can remove it
+let registration: { userId: string; token: string } | null = null;
+
+const getUtcOffsetMinutes = () => -new Date().getTimezoneOffset();
+
+// Ask for permission and save this device's Expo push token under the user. Returns null when
+// permission is refused or the device can't receive pushes; never throws, since pushes are
+// optional and this runs on every sign-in.
+export const registerForPushNotifications = async (userId: string): Promise<string | null> => {
+  try {
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') return null;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Default',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId || Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    await executeWithRetry(async () => {
+      await setDoc(doc(db, 'users', userId, 'pushTokens', token), {
+        platform: Platform.OS,
+        updatedAt: Timestamp.now(),
+      });
+      // Quiet hours are kept in local time; travelling moves them with the device
+      await updateDoc(doc(db, 'users', userId), {
+        'notificationPreferences.utcOffsetMinutes': getUtcOffsetMinutes(),
+      });
+    }, 'registerForPushNotifications');
+
+    registration = { userId, token };
+    return token;
+  } catch (error) {
+    console.error('Error registering for push notifications:', error);
+    return null;
+  }
+};
+
+// Stop pushes to this device, before signing out while the user can still write their tokens
+export const unregisterPushToken = async (): Promise<void> => {
+  if (!registration) return;
+
+  try {
+    await deleteDoc(doc(db, 'users', registration.userId, 'pushTokens', registration.token));
+    registration = null;
+  } catch (error) {
+    console.error('Error unregistering push token:', error);
+  }
+};
+
+// Call onTap with a push's data when the user opens the app from it
+export const subscribeToPushTaps = (onTap: (data: PushData) => void): (() => void) => {
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    onTap(response.notification.request.content.data as PushData);
+  });
+  return () => subscription.remove();
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  return executeWithRetry(async () => {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const saved = userDoc.data()?.notificationPreferences || {};
+
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...saved,
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...saved.quietHours },
+    };
+  }, 'getNotificationPreferences');
+};
+
+export const saveNotificationPreferences = async (
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<void> => {
+  return executeWithRetry(async () => {
+    await updateDoc(doc(db, 'users', userId), {
+      notificationPreferences: { ...preferences, utcOffsetMinutes: getUtcOffsetMinutes() },
+    });
+  }, 'saveNotificationPreferences');
+};
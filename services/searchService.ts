@@ -11,7 +11,8 @@ import {
 import { httpsCallable } from 'firebase/functions';
 import { getFunctions } from 'firebase/functions';
 import { db } from '../firebaseConfig';
-import { Concert, Artist, Venue } from '../types';
+import { Concert, Artist, Venue, VenueSearchResult, TicketmasterEvent } from '../types';
+import { normalizeName } from '../utils/normalize';
 
 const functions = getFunctions();
 
@@ -79,6 +80,33 @@ export const searchConcerts = async (searchTerm: string): Promise<Concert[]> =>
       }
     });
 
+    // Also match concerts where any act on the bill (openers, festival acts) fits the term
+    const matchingArtists = await searchArtists(searchTerm);
+    if (matchingArtists.length > 0) {
+      const lineupQ = query(
+        concertsRef,
+        where('artistRefs', 'array-contains-any', matchingArtists.map(artist => `artists/${artist.id}`)),
+        limit(10)
+      );
+
+      const lineupSnapshot = await getDocs(lineupQ);
+      lineupSnapshot.forEach((doc) => {
+        const data = doc.data();
+        const concert = {
+          id: doc.id,
+          ...data,
+          date: data.date.toDate(),
+          createdAt: data.createdAt.toDate(),
+          updatedAt: data.updatedAt.toDate(),
+        } as Concert;
+
+        // Avoid duplicates
+        if (!concerts.find(c => c.id === concert.id)) {
+          concerts.push(concert);
+        }
+      });
+    }
+
     return concerts.slice(0, 10); // Limit to 10 total results
   } catch (error) {
     console.error('Error searching concerts:', error);
@@ -206,27 +234,40 @@ export const getTrendingConcerts = async (): Promise<Concert[]> => {
 // Get popular artists (by number of logged concerts)
 export const getPopularArtists = async (): Promise<Artist[]> => {
   try {
-    // This is a simplified approach - in a real app, you'd aggregate ratings
+    // Most-rated artists first; ratingStats is maintained by the aggregateConcertRatings trigger.
+    // Artists without ratingStats yet (until recomputeRatingAggregates has run) are left out of
+    // that query, so the list is topped up with the most recently added artists.
     const artistsRef = collection(db, 'artists');
-    const q = query(
-      artistsRef,
-      orderBy('createdAt', 'desc'), // Most recently added artists
-      limit(5)
-    );
+    const rankedQueries = [
+      query(artistsRef, orderBy('ratingStats.count', 'desc'), limit(20)),
+      query(artistsRef, orderBy('createdAt', 'desc'), limit(20)),
+    ];
 
-    const querySnapshot = await getDocs(q);
     const artists: Artist[] = [];
+    const seenNames = new Set<string>();
 
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      artists.push({
-        id: doc.id,
-        ...data,
-        createdAt: data.createdAt.toDate(),
-      } as Artist);
-    });
+    for (const q of rankedQueries) {
+      const querySnapshot = await getDocs(q);
 
-    return artists;
+      querySnapshot.forEach((doc) => {
+        const data = doc.data();
+
+        // Skip spelling variants that haven't been merged yet, and artists already listed
+        const normalizedName = data.normalizedName || normalizeName(data.name);
+        if (seenNames.has(normalizedName)) return;
+        seenNames.add(normalizedName);
+
+        artists.push({
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt.toDate(),
+        } as Artist);
+      });
+
+      if (artists.length >= 5) break;
+    }
+
+    return artists.slice(0, 5);
   } catch (error) {
     console.error('Error getting popular artists:', error);
     return [];
@@ -261,3 +302,15 @@ export const searchExternalAPIs = async (searchTerm: string, type: 'events' | 'a
     return [];
   }
 };
+
+// Search for venues with structured location details (city, coordinates, timezone...)
+export const searchVenuePlaces = async (searchTerm: string): Promise<VenueSearchResult[]> => {
+  const data = await searchExternalAPIs(searchTerm, 'venues') as { results?: VenueSearchResult[] };
+  return data?.results || [];
+};
+
+// Search Ticketmaster for upcoming events to save to the wishlist
+export const searchUpcomingEvents = async (searchTerm: string): Promise<TicketmasterEvent[]> => {
+  const data = await searchExternalAPIs(searchTerm, 'events') as { results?: TicketmasterEvent[] };
+  return data?.results || [];
+};
@@ -0,0 +1,65 @@
+import { collection, doc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Artist, Concert, Review, Venue } from '../types';
+import { getUserConcerts, getArtistByRef, getVenueByRef } from './concertService';
+import { executeWithRetry } from './firebaseConnection';
+import { parseMedia } from './mediaService';
+import { computeConcertStats, ConcertStats } from '../utils/concertStats';
+import { buildYearInReview, getRecapYears, YearInReview } from '../utils/yearInReview';
+
+// Fetch documents by path once each, keyed by path; missing ones are left out
+const loadByRef = async <T>(refs: string[], load: (ref: string) => Promise<T | null>): Promise<Map<string, T>> => {
+  const uniqueRefs = Array.from(new Set(refs));
+  const loaded = await Promise.all(uniqueRefs.map(load));
+
+  const byRef = new Map<string, T>();
+  loaded.forEach((item, index) => {
+    if (item) byRef.set(uniqueRefs[index], item);
+  });
+  return byRef;
+};
+
+const loadVenues = (concerts: Concert[]): Promise<Map<string, Venue>> =>
+  loadByRef(concerts.map((concert) => concert.venueRef), getVenueByRef);
+
+// Every review the user has written
+const getUserReviews = async (userId: string): Promise<Review[]> => {
+  return executeWithRetry(async () => {
+    const q = query(collection(db, 'reviews'), where('userRef', '==', doc(db, 'users', userId).path));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate(),
+        media: parseMedia(data.media),
+      } as Review;
+    });
+  }, 'getUserReviews');
+};
+
+// Load a user's concerts with the artists and venues they reference, then compute their stats
+export const getUserConcertStats = async (userId: string): Promise<ConcertStats> => {
+  const concerts = await getUserConcerts(userId);
+
+  const [artists, venues] = await Promise.all([
+    loadByRef<Artist>(concerts.flatMap((concert) => concert.artistRefs || [concert.artistRef]), getArtistByRef),
+    loadVenues(concerts),
+  ]);
+
+  return computeConcertStats(concerts, artists, venues);
+};
+
+// Recaps for every year the user logged a show in, newest first
+export const getYearInReviews = async (userId: string): Promise<YearInReview[]> => {
+  const [concerts, reviews] = await Promise.all([
+    getUserConcerts(userId),
+    getUserReviews(userId),
+  ]);
+  const venues = await loadVenues(concerts);
+
+  return getRecapYears(concerts).map((year) => buildYearInReview(year, concerts, reviews, venues));
+};
@@ -0,0 +1,189 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  limit,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { UpcomingShow, UpcomingShowFormData, TicketDetails, TicketmasterEvent } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+
+// Drop empty ticket fields, which Firestore would otherwise reject or store as noise
+const sanitizeTicket = (ticket: TicketDetails = {}): TicketDetails => {
+  const sanitized: Record<string, string | number> = {};
+  Object.entries(ticket).forEach(([field, value]) => {
+    if (typeof value === 'string' && value.trim()) sanitized[field] = value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) sanitized[field] = value;
+  });
+  return sanitized as TicketDetails;
+};
+
+const toUpcomingShow = (id: string, data: any): UpcomingShow => ({
+  id,
+  ...data,
+  date: data.date.toDate(),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+} as UpcomingShow);
+
+// Save a future show to the user's wishlist
+export const addUpcomingShow = async (userId: string, formData: UpcomingShowFormData): Promise<string> => {
+  return executeWithRetry(async () => {
+    const userRef = doc(db, 'users', userId).path;
+
+    // Saving the same Ticketmaster event twice just returns the existing entry
+    if (formData.externalId) {
+      const existingQuery = query(
+        collection(db, 'upcomingShows'),
+        where('userRef', '==', userRef),
+        where('externalId', '==', formData.externalId),
+        limit(1)
+      );
+      const existingSnapshot = await getDocs(existingQuery);
+      if (!existingSnapshot.empty) {
+        return existingSnapshot.docs[0].id;
+      }
+    }
+
+    const showData = {
+      userRef,
+      status: formData.status,
+      artistName: formData.artistName.trim(),
+      venueName: formData.venueName.trim(),
+      date: Timestamp.fromDate(formData.date),
+      festivalName: formData.festivalName?.trim() || '',
+      source: formData.source || 'manual',
+      externalId: formData.externalId || '',
+      ticketUrl: formData.ticketUrl || '',
+      ticket: sanitizeTicket(formData.ticket),
+      dismissed: false,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+
+    const docRef = await addDoc(collection(db, 'upcomingShows'), showData);
+    return docRef.id;
+  }, 'addUpcomingShow');
+};
+
+// Save a Ticketmaster search result to the wishlist
+export const saveTicketmasterEvent = async (
+  userId: string,
+  event: TicketmasterEvent,
+  status: UpcomingShowFormData['status'] = 'interested'
+): Promise<string> => {
+  return addUpcomingShow(userId, {
+    status,
+    artistName: event.artistName || event.name,
+    venueName: event.venue,
+    date: new Date(event.date),
+    source: 'ticketmaster',
+    externalId: event.id,
+    ticketUrl: event.ticketUrl,
+  });
+};
+
+// Update a wishlist entry, e.g. after buying tickets
+export const updateUpcomingShow = async (
+  showId: string,
+  updates: Partial<UpcomingShowFormData>
+): Promise<void> => {
+  return executeWithRetry(async () => {
+    const showUpdates: Record<string, any> = {
+      updatedAt: Timestamp.now(),
+    };
+
+    if (updates.status !== undefined) showUpdates.status = updates.status;
+    if (updates.artistName !== undefined) showUpdates.artistName = updates.artistName.trim();
+    if (updates.venueName !== undefined) showUpdates.venueName = updates.venueName.trim();
+    if (updates.date !== undefined) showUpdates.date = Timestamp.fromDate(updates.date);
+    if (updates.festivalName !== undefined) showUpdates.festivalName = updates.festivalName.trim();
+    if (updates.ticket !== undefined) showUpdates.ticket = sanitizeTicket(updates.ticket);
+
+    await updateDoc(doc(db, 'upcomingShows', showId), showUpdates);
+  }, 'updateUpcomingShow');
+};
+
+export const deleteUpcomingShow = async (showId: string): Promise<void> => {
+  return executeWithRetry(async () => {
+    await deleteDoc(doc(db, 'upcomingShows', showId));
+  }, 'deleteUpcomingShow');
+};
+
+export const getUpcomingShowById = async (showId: string): Promise<UpcomingShow | null> => {
+  try {
+    const showDoc = await getDoc(doc(db, 'upcomingShows', showId));
+    return showDoc.exists() ? toUpcomingShow(showDoc.id, showDoc.data()) : null;
+  } catch (error) {
+    console.error('Error getting upcoming show:', error);
+    throw error;
+  }
+};
+
+// Get every wishlist entry for the user, soonest first (including logged ones, for spend tracking)
+export const getUserUpcomingShows = async (userId: string): Promise<UpcomingShow[]> => {
+  return executeWithRetry(async () => {
+    const q = query(
+      collection(db, 'upcomingShows'),
+      where('userRef', '==', doc(db, 'users', userId).path)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map((showDoc) => toUpcomingShow(showDoc.id, showDoc.data()))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, 'getUserUpcomingShows');
+};
+
+// A show is ready to log from the day after it happened until it's logged or dismissed
+export const isReadyToLog = (show: UpcomingShow, now: Date = new Date()): boolean => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return show.date < startOfToday && !show.loggedConcertRef && !show.dismissed;
+};
+
+export const getShowsReadyToLog = async (userId: string): Promise<UpcomingShow[]> => {
+  const shows = await getUserUpcomingShows(userId);
+  return shows.filter((show) => isReadyToLog(show));
+};
+
+// Link the wishlist entry to the concert it was logged as
+export const markUpcomingShowLogged = async (showId: string, concertId: string): Promise<void> => {
+  return executeWithRetry(async () => {
+    await updateDoc(doc(db, 'upcomingShows', showId), {
+      loggedConcertRef: doc(db, 'concerts', concertId).path,
+      updatedAt: Timestamp.now(),
+    });
+  }, 'markUpcomingShowLogged');
+};
+
+// The user didn't go, so stop prompting them to log it
+export const dismissUpcomingShow = async (showId: string): Promise<void> => {
+  return executeWithRetry(async () => {
+    await updateDoc(doc(db, 'upcomingShows', showId), {
+      dismissed: true,
+      updatedAt: Timestamp.now(),
+    });
+  }, 'dismissUpcomingShow');
+};
+
+// Total ticket spend per currency, optionally limited to shows in one year
+export const summarizeTicketSpend = (shows: UpcomingShow[], year?: number): Record<string, number> => {
+  const totals: Record<string, number> = {};
+
+  shows.forEach((show) => {
+    if (!show.ticket?.price) return;
+    if (year !== undefined && show.date.getFullYear() !== year) return;
+
+    const currency = show.ticket.currency || 'USD';
+    totals[currency] = (totals[currency] || 0) + show.ticket.price;
+  });
+
+  return totals;
+};
@@ -0,0 +1,62 @@
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Concert, Review } from '../types';
+import { executeWithRetry } from './firebaseConnection';
+import { parseMedia } from './mediaService';
+
+// Every attendance log at the venue, across all users, newest first
+export const getVenueConcerts = async (venueRef: string): Promise<Concert[]> => {
+  return executeWithRetry(async () => {
+    const q = query(collection(db, 'concerts'), where('venueRef', '==', venueRef));
+    const querySnapshot = await getDocs(q);
+
+    const concerts: Concert[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      concerts.push({
+        id: doc.id,
+        ...data,
+        date: data.date.toDate(),
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate(),
+        media: parseMedia(data.media),
+      } as Concert);
+    });
+
+    return concerts.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, 'getVenueConcerts');
+};
+
+// Latest reviews of shows at the venue
+export const getVenueReviews = async (venueRef: string, count: number = 10): Promise<Review[]> => {
+  return executeWithRetry(async () => {
+    const q = query(
+      collection(db, 'reviews'),
+      where('venueRef', '==', venueRef),
+      orderBy('createdAt', 'desc'),
+      limit(count)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt.toDate(),
+        updatedAt: data.updatedAt.toDate(),
+        media: parseMedia(data.media),
+      } as Review;
+    });
+  }, 'getVenueReviews').catch((error) => {
+    console.error('Error getting venue reviews:', error);
+    return [];
+  });
+};
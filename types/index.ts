@@ -7,6 +7,15 @@ export interface User {
   bio?: string;
   profilePictureUrl?: string;
   loggedConcertsCount: number;
+  notificationPreferences?: NotificationPreferences;
+}
+
+// Star-rating aggregate kept up to date by functions/src/ratings.ts
+export interface RatingStats {
+  count: number;
+  sum: number;
+  average: number;
+  histogram: Record<'1' | '2' | '3' | '4' | '5', number>;
 }
 
 export interface Artist {
@@ -14,35 +23,210 @@ export interface Artist {
   name: string;
   genre?: string[];
   imageUrl?: string;
+  normalizedName?: string; // Matching key, see utils/normalize.ts
+  aliases?: string[]; // Other spellings, e.g. names of artists merged into this one
+  normalizedAliases?: string[];
+  ratingStats?: RatingStats;
   createdAt: Date;
 }
 
 export interface Venue {
   id: string;
   name: string;
-  city: string;
-  state: string;
-  country: string;
+  city?: string;
+  region?: string; // State, province or county
+  countryCode?: string; // ISO 3166-1 alpha-2, e.g. "US"
+  state?: string; // Legacy, superseded by region
+  country?: string; // Legacy, superseded by countryCode
   address?: string;
+  latitude?: number;
+  longitude?: number;
+  capacity?: number;
+  timezone?: string; // IANA zone, e.g. "America/New_York"
+  placeId?: string; // Google Places ID the details came from
   imageUrl?: string;
+  normalizedName?: string; // Matching key, see utils/normalize.ts
+  aliases?: string[]; // Other spellings, e.g. names of venues merged into this one
+  normalizedAliases?: string[];
+  ratingStats?: RatingStats;
+  createdAt: Date;
+}
+
+// Location details picked from venue search, stored on the venue when it's created
+export type VenueDetails = Pick<
+  Venue,
+  'placeId' | 'address' | 'city' | 'region' | 'countryCode' | 'latitude' | 'longitude' | 'capacity' | 'timezone'
+>;
+
+// A venue search result from searchGooglePlacesVenues
+export interface VenueSearchResult extends VenueDetails {
+  name: string;
+}
+
+export interface SetlistSong {
+  title: string;
+  set: number; // 0 = main set, 1+ = encore number
+  isCover?: boolean;
+  originalArtist?: string; // Only meaningful for covers
+  segueInto?: boolean; // Flows straight into the next song ("->")
+  isTape?: boolean; // Pre-recorded intro/outro, not performed live
+  notes?: string;
+}
+
+export type LineupRole = 'headliner' | 'support' | 'festival';
+
+export interface LineupAct {
+  artistRef: string; // DocumentReference path
+  artistName: string; // Denormalized for display
+  role: LineupRole;
+  stage?: string; // Festival stage
+  setTime?: string; // Local start time, "HH:MM"
+  rating?: number; // 1-5, rating for this act alone
+}
+
+// A show as it happened (artists + venue + date), shared by every attendee's concert log
+export interface ConcertEvent {
+  id: string;
+  headlinerRef: string; // DocumentReference path
+  artistRefs: string[]; // Every act anyone logged for this show
+  artistNames: string[];
+  venueRef: string; // DocumentReference path
+  venueName: string;
+  date: Date;
+  day: string; // "YYYY-MM-DD", part of the event identity
+  festivalName?: string;
+  attendeesCount: number;
+  ratingStats?: RatingStats;
+  createdAt: Date;
+}
+
+// A photo or video uploaded to Storage under media/{uid}/{concerts|reviews}/{ownerId}/
+export interface MediaAttachment {
+  id: string;
+  type: 'image' | 'video';
+  storagePath: string;
+  url: string;
+  contentType: string;
+  width?: number;
+  height?: number;
+  durationMs?: number; // Videos only
   createdAt: Date;
 }
 
 export interface Concert {
   id: string;
-  artistRef: string; // DocumentReference path
+  eventRef?: string; // DocumentReference path of the shared event
+  artistRef: string; // DocumentReference path of the headliner
+  artistRefs?: string[]; // Every act on the bill, for array-contains queries
+  artistName?: string; // Denormalized headliner name
+  artistNames?: string[]; // Denormalized names of every act
+  lineup?: LineupAct[]; // Headliner first, then support/festival acts in billing order
+  festivalName?: string;
   venueRef: string; // DocumentReference path
+  venueName?: string; // Denormalized venue name
   date: Date;
   userRef: string; // DocumentReference path
   rating: number; // 1-5
   notes?: string;
+  setlist?: SetlistSong[]; // Ordered as played
+  media?: MediaAttachment[];
+  mediaThumbnails?: Record<string, string>; // Attachment ID -> thumbnail URL, written by generateMediaThumbnail
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A badge from functions/src/achievementDefinitions.ts, stored in users/{uid}/achievements
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string; // IconName from components/ui/Icon.tsx
+  earnedAt: Date;
+  announced: boolean; // Whether the "badge unlocked" toast has been shown
+}
+
+// How two users' concert histories overlap, computed by the getTasteCompatibility function
+export interface TasteCompatibility {
+  score: number; // 0-100
+  sharedArtistsCount: number;
+  sharedShowsCount: number;
+  sharedVenuesCount: number;
+  sharedArtists: { ref: string; name: string; count: number }[]; // Most-seen first, at most 10
+  sharedShows: { eventRef: string; name: string; venueName: string; date: string }[]; // Newest first, ISO dates
+  sharedVenues: { ref: string; name: string; count: number }[];
+  ratingCorrelation: number | null; // -1..1 over artists both rated, null when too few
+  commonRatedArtists: number;
+  computedAt: string; // ISO
+}
+
+// One show as seen across the community: every attendance log that points at the same event
+export interface ShowSummary {
+  key: string; // eventRef, or the concert ID for logs that predate shared events
+  eventRef?: string;
+  date: Date;
+  venueRef: string;
+  venueName?: string;
+  artistName?: string; // Headliner
+  festivalName?: string;
+  concerts: Concert[];
+}
+
+// Someone the user follows and how many times they've seen a given artist or venue
+export interface FollowedAttendee {
+  user: User;
+  showsCount: number;
+}
+
+// An entry in a user's activity feed, fanned out to feedItems by functions/src/feed.ts
+export interface FeedItem {
+  id: string;
+  type: 'concert_logged' | 'review_posted';
+  userId: string; // Who did it
+  userDisplayName: string;
+  concertId: string;
+  concertName: string;
+  artistName: string;
+  venueName: string;
+  reviewId?: string;
+  timestamp: Date;
+}
+
+// A notification from functions/src/notifications.ts. Repeat activity on the same target is
+// folded into one notification while it's unread.
+export interface AppNotification {
+  id: string;
+  type: 'review_liked' | 'review_commented' | 'new_follower';
+  actorRefs: string[]; // Most recent first
+  actorNames: string[]; // Display names of the first few actorRefs
+  actorCount: number;
+  reviewRef?: string;
+  concertRef?: string;
+  concertName?: string;
+  preview?: string; // Latest comment text
+  read: boolean;
+  updatedAt: Date;
+}
+
+// Which push notifications a user gets, read by functions/src/push.ts
+export interface NotificationPreferences {
+  follows: boolean;
+  likes: boolean;
+  comments: boolean;
+  friendShows: boolean; // A followed user logged a show you were also at
+  quietHours: {
+    enabled: boolean;
+    startHour: number; // 0-23, local time
+    endHour: number;
+  };
+  utcOffsetMinutes: number; // The device's offset when last saved, so quiet hours follow local time
+}
+
 export interface Review {
   id: string;
   concertRef: string; // DocumentReference path
+  eventRef?: string; // Copied from the concert so one show's reviews can be aggregated
+  artistRefs?: string[]; // Copied from the concert
+  venueRef?: string; // Copied from the concert
   userRef: string; // DocumentReference path
   text: string;
   rating: number; // 1-5, matching concert's rating
@@ -50,6 +234,52 @@ export interface Review {
   updatedAt: Date;
   likesCount: number;
   commentsCount: number;
+  edited?: boolean; // Set once the text or rating has been changed after posting
+  media?: MediaAttachment[];
+  mediaThumbnails?: Record<string, string>; // Attachment ID -> thumbnail URL, written by generateMediaThumbnail
+}
+
+export type UpcomingShowStatus = 'going' | 'interested';
+
+export interface TicketDetails {
+  section?: string;
+  row?: string;
+  seat?: string;
+  price?: number; // Total paid for all tickets, in `currency`
+  currency?: string; // ISO 4217, e.g. "USD"
+  quantity?: number;
+  purchaseSource?: string; // e.g. "Ticketmaster", "Box office", "Resale"
+}
+
+// A future show on the user's wishlist; becomes a "log it" prompt once the date passes
+export interface UpcomingShow {
+  id: string;
+  userRef: string; // DocumentReference path
+  status: UpcomingShowStatus;
+  artistName: string;
+  venueName: string;
+  date: Date;
+  festivalName?: string;
+  source: 'manual' | 'ticketmaster';
+  externalId?: string; // Ticketmaster event ID
+  ticketUrl?: string;
+  ticket?: TicketDetails;
+  loggedConcertRef?: string; // Set once it has been logged as a concert
+  dismissed?: boolean; // The user didn't end up going
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An event returned by searchTicketmasterEvents
+export interface TicketmasterEvent {
+  id: string;
+  name: string;
+  artistName?: string;
+  date: string; // ISO 8601
+  venue: string;
+  city?: string;
+  imageUrl?: string;
+  ticketUrl?: string;
 }
 
 export interface Comment {
@@ -57,15 +287,55 @@ export interface Comment {
   userRef: string; // DocumentReference path
   text: string;
   createdAt: Date;
+  updatedAt?: Date;
+  edited?: boolean;
 }
 
 // Form Types
-export interface LogConcertFormData {
+export interface LineupActFormData {
   artistName: string;
+  role: Exclude<LineupRole, 'headliner'>;
+  stage?: string;
+  setTime?: string;
+  rating?: number;
+}
+
+export interface LogConcertFormData {
+  artistName: string; // Headliner
   venueName: string;
   date: Date;
   rating: number;
   notes: string;
+  setlist?: SetlistSong[];
+  lineup?: LineupActFormData[]; // Everyone else on the bill
+  festivalName?: string;
+  venueDetails?: VenueDetails; // Set when the venue was picked from search
+}
+
+export type ConcertImportFormat = 'csv' | 'json';
+
+// One row of an import file after parsing; concert is only set when the row is valid
+export interface ConcertImportRow {
+  line: number; // 1-based line (CSV) or array index + 1 (JSON), for error messages
+  concert: LogConcertFormData | null;
+  errors: string[];
+}
+
+export interface ConcertImportResult {
+  imported: number;
+  skipped: number; // Rows that matched a concert the user had already logged
+}
+
+export interface UpcomingShowFormData {
+  status: UpcomingShowStatus;
+  artistName: string;
+  venueName: string;
+  date: Date;
+  festivalName?: string;
+  ticket?: TicketDetails;
+  source?: UpcomingShow['source'];
+  externalId?: string;
+  ticketUrl?: string;
 }
 
 // Navigation Types
@@ -73,7 +343,16 @@ export type RootStackParamList = {
   Login: undefined;
   SignUp: undefined;
   MainTabs: undefined;
-  LogConcert: undefined;
+  LogConcert: { concertId?: string; upcomingShowId?: string } | undefined;
   UserProfile: { userId?: string };
   ConcertDetail: { concertId: string };
+  UpcomingShows: undefined;
+  AddUpcomingShow: { upcomingShowId?: string } | undefined;
+  ImportConcerts: undefined;
+  DeleteAccount: undefined;
+  ArtistDetail: { artistId: string };
+  VenueDetail: { venueId: string };
+  Stats: undefined;
+  YearInReview: { year?: number } | undefined;
+  NotificationSettings: undefined;
 };
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectImportFormat, parseConcertImport } from '../concertImport';
+
+const HEADER = 'artist,venue,city,date,rating,notes';
+
+test('quoted cells keep their commas, escaped quotes and line breaks', () => {
+  const rows = parseConcertImport(
+    `${HEADER}\n"Crosby, Stills & Nash",Red Rocks,Morrison,2019-06-01,5,"They played ""Wooden Ships""\nin the rain"\nRadiohead,MSG,,2016-07-27,4,`,
+    'csv'
+  );
+
+  assert.equal(rows.length, 2);
+  assert.equal(rows[0].concert?.artistName, 'Crosby, Stills & Nash');
+  assert.equal(rows[0].concert?.notes, 'They played "Wooden Ships"\nin the rain');
+  assert.deepEqual(rows[0].concert?.venueDetails, { city: 'Morrison' });
+  // The quoted line break doesn't throw off where the next row starts
+  assert.equal(rows[1].line, 4);
+  assert.equal(rows[1].concert?.venueDetails, undefined);
+});
+
+test('the byte-order mark Excel adds is ignored, as are CRLF line endings and blank lines', () => {
+  const rows = parseConcertImport(`\uFEFF${HEADER}\r\nRadiohead,MSG,,2016-07-27,5,\r\n\r\n`, 'csv');
+
+  assert.equal(rows.length, 1);
+  assert.deepEqual(rows[0].errors, []);
+  assert.equal(rows[0].concert?.artistName, 'Radiohead');
+});
+
+test('ISO and US dates are read as local calendar days, and impossible days are rejected', () => {
+  const rows = parseConcertImport(
+    `${HEADER}\nA,V,,2016-07-27,5,\nB,V,,7/4/2018,5,\nC,V,,2019-02-30,5,\nD,V,,someday,5,`,
+    'csv'
+  );
+
+  assert.deepEqual(rows[0].concert?.date, new Date(2016, 6, 27));
+  assert.deepEqual(rows[1].concert?.date, new Date(2018, 6, 4));
+  assert.deepEqual(rows[2].errors, ['Unrecognized date "2019-02-30" (use YYYY-MM-DD)']);
+  assert.equal(rows[2].concert, null);
+  assert.deepEqual(rows[3].errors, ['Unrecognized date "someday" (use YYYY-MM-DD)']);
+});
+
+test('the same show listed twice is flagged on the later line, whatever the spelling', () => {
+  const rows = parseConcertImport(
+    `${HEADER}\nRadiohead,Madison Square Garden,,2016-07-27,5,\nradiohead ,madison square garden,,7/27/2016,4,\nRadiohead,Madison Square Garden,,2016-07-28,4,`,
+    'csv'
+  );
+
+  assert.notEqual(rows[0].concert, null);
+  assert.equal(rows[1].concert, null);
+  assert.deepEqual(rows[1].errors, ['Duplicate of line 2']);
+  assert.notEqual(rows[2].concert, null);
+});
+
+test('rows with missing fields or bad ratings report every problem', () => {
+  const [row] = parseConcertImport(`${HEADER}\n,,,,6,`, 'csv');
+
+  assert.equal(row.concert, null);
+  assert.deepEqual(row.errors, [
+    'Artist is required',
+    'Venue is required',
+    'Date is required',
+    'Rating must be a whole number from 1 to 5',
+  ]);
+  assert.throws(() => parseConcertImport('artist,venue\nA,V', 'csv'), /missing required column\(s\): date, rating/);
+});
+
+test('JSON accepts an array or a concerts object using the CSV column names', () => {
+  const text = JSON.stringify({ concerts: [{ Artist: 'Radiohead', Venue: 'MSG', Date: '2016-07-27', Rating: 5 }] });
+
+  assert.equal(detectImportFormat(text), 'json');
+  assert.equal(detectImportFormat(text, 'shows.csv'), 'csv');
+  assert.equal(parseConcertImport(text, 'json')[0].concert?.artistName, 'Radiohead');
+  assert.throws(() => parseConcertImport('{"shows": []}', 'json'), /"concerts" array/);
+});
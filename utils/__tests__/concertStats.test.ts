@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Artist, Concert, Venue } from '../../types';
+import { computeConcertStats, fillRecentMonths, findLongestGap } from '../concertStats';
+
+let nextId = 0;
+
+// Only the fields the stats read; dates are local so grouping doesn't depend on the time zone
+const concert = (date: Date, overrides: Partial<Concert> = {}): Concert => ({
+  id: `concert_${nextId++}`,
+  artistRef: 'artists/a',
+  artistName: 'Artist A',
+  venueRef: 'venues/v',
+  venueName: 'Venue V',
+  userRef: 'users/u',
+  rating: 0,
+  date,
+  createdAt: date,
+  updatedAt: date,
+  ...overrides,
+} as Concert);
+
+const noArtists = new Map<string, Artist>();
+const noVenues = new Map<string, Venue>();
+
+test('shows per year are counted and ordered oldest first', () => {
+  const stats = computeConcertStats([
+    concert(new Date(2024, 2, 1)),
+    concert(new Date(2022, 5, 1)),
+    concert(new Date(2024, 8, 1)),
+  ], noArtists, noVenues);
+
+  assert.equal(stats.totalShows, 3);
+  assert.deepEqual(stats.showsPerYear.map(({ key, count }) => [key, count]), [['2022', 1], ['2024', 2]]);
+});
+
+test('top artists count every act on the bill, most seen first with ties alphabetical', () => {
+  const stats = computeConcertStats([
+    concert(new Date(2024, 0, 1), { artistRefs: ['artists/b', 'artists/c'], artistNames: ['Bravo', 'Charlie'] }),
+    concert(new Date(2024, 1, 1), { artistRefs: ['artists/c'], artistNames: ['Charlie'] }),
+    concert(new Date(2024, 2, 1), { artistRef: 'artists/a', artistName: 'Alpha' }),
+  ], new Map([['artists/c', { name: 'Charlie (merged)' } as Artist]]), noVenues);
+
+  assert.deepEqual(stats.topArtists.map(({ label, count }) => [label, count]), [
+    ['Charlie (merged)', 2],
+    ['Alpha', 1],
+    ['Bravo', 1],
+  ]);
+});
+
+test('average rating per year skips unrated shows and rounds to one decimal', () => {
+  const stats = computeConcertStats([
+    concert(new Date(2023, 0, 1), { rating: 5 }),
+    concert(new Date(2023, 1, 1), { rating: 4 }),
+    concert(new Date(2023, 2, 1), { rating: 4 }),
+    concert(new Date(2023, 3, 1), { rating: 0 }),
+    concert(new Date(2024, 0, 1), { rating: 3 }),
+  ], noArtists, noVenues);
+
+  assert.deepEqual(stats.averageRatingByYear.map(({ key, average, count }) => [key, average, count]), [
+    ['2023', 4.3, 3],
+    ['2024', 3, 1],
+  ]);
+});
+
+test('longest gap is the widest stretch between consecutive shows', () => {
+  const gap = findLongestGap([
+    new Date(2024, 5, 1),
+    new Date(2024, 0, 1),
+    new Date(2024, 0, 11),
+    new Date(2024, 0, 11),
+  ]);
+
+  assert.equal(gap?.days, 142);
+  assert.deepEqual(gap?.from, new Date(2024, 0, 11));
+  assert.deepEqual(gap?.to, new Date(2024, 5, 1));
+  assert.equal(findLongestGap([new Date(2024, 0, 1)]), null);
+});
+
+test('recent months are filled with zeros across the year boundary', () => {
+  const months = fillRecentMonths([
+    { key: '2023-12', label: 'Dec 2023', count: 2 },
+    { key: '2024-02', label: 'Feb 2024', count: 1 },
+  ], 4, new Date(2024, 1, 15));
+
+  assert.deepEqual(months.map(({ key, count }) => [key, count]), [
+    ['2023-11', 0],
+    ['2023-12', 2],
+    ['2024-01', 0],
+    ['2024-02', 1],
+  ]);
+});
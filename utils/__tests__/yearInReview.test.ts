@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Concert, Review, Venue } from '../../types';
+import { buildYearInReview, getRecapYears, milesBetween } from '../yearInReview';
+
+let nextId = 0;
+
+// Only the fields the recap reads; dates are local so the year doesn't depend on the time zone
+const concert = (date: Date, overrides: Partial<Concert> = {}): Concert => ({
+  id: `concert_${nextId++}`,
+  artistRef: 'artists/a',
+  artistName: 'Alpha',
+  venueRef: 'venues/v',
+  venueName: 'Venue V',
+  userRef: 'users/u',
+  rating: 3,
+  date,
+  createdAt: date,
+  updatedAt: date,
+  ...overrides,
+} as Concert);
+
+const review = (createdAt: Date, likesCount: number, text = 'Great show'): Review => ({
+  id: `review_${nextId++}`,
+  text,
+  likesCount,
+  createdAt,
+} as Review);
+
+// Venues a whole number of degrees of longitude apart on the equator, ~69.09 miles each
+const venueAt = (longitude: number) => ({ latitude: 0, longitude } as Venue);
+
+test('recap years are the years with shows, newest first', () => {
+  assert.deepEqual(getRecapYears([
+    concert(new Date(2022, 3, 1)),
+    concert(new Date(2024, 0, 1)),
+    concert(new Date(2022, 11, 31)),
+  ]), [2024, 2022]);
+});
+
+test('totals only count the requested year, with first and last show in date order', () => {
+  const march = concert(new Date(2024, 2, 1), { venueRef: 'venues/x' });
+  const january = concert(new Date(2024, 0, 1));
+  const recap = buildYearInReview(2024, [
+    march,
+    concert(new Date(2023, 11, 31)),
+    january,
+    concert(new Date(2024, 1, 1)),
+  ], [], new Map());
+
+  assert.equal(recap.totalShows, 3);
+  assert.equal(recap.venuesCount, 2);
+  assert.equal(recap.firstShow, january);
+  assert.equal(recap.lastShow, march);
+});
+
+test('acts are new or repeat depending on earlier years, and the top artist needs two shows', () => {
+  const recap = buildYearInReview(2024, [
+    concert(new Date(2023, 5, 1), { artistRef: 'artists/a', artistName: 'Alpha' }),
+    concert(new Date(2024, 0, 1), { artistRefs: ['artists/a', 'artists/b'], artistNames: ['Alpha', 'Bravo'] }),
+    concert(new Date(2024, 1, 1), { artistRef: 'artists/b', artistName: 'Bravo' }),
+  ], [], new Map());
+
+  assert.deepEqual(recap.newArtists, ['Bravo']);
+  assert.deepEqual(recap.repeatArtists, ['Alpha']);
+  assert.deepEqual(recap.topArtist, { name: 'Bravo', count: 2 });
+
+  const single = buildYearInReview(2023, [concert(new Date(2023, 5, 1))], [], new Map());
+  assert.equal(single.topArtist, null);
+});
+
+test('the top rated show is the earliest of the best rated, and the most liked review needs text', () => {
+  const earlyFive = concert(new Date(2024, 0, 1), { rating: 5 });
+  const recap = buildYearInReview(2024, [
+    concert(new Date(2024, 2, 1), { rating: 5 }),
+    earlyFive,
+    concert(new Date(2024, 1, 1), { rating: 4 }),
+  ], [
+    review(new Date(2024, 0, 2), 10, ''),
+    review(new Date(2024, 0, 3), 3),
+    review(new Date(2023, 0, 3), 20),
+  ], new Map());
+
+  assert.equal(recap.topRatedShow, earlyFive);
+  assert.equal(recap.mostLikedReview?.likesCount, 3);
+});
+
+test('miles traveled add up venue to venue in show order, skipping venues without a position', () => {
+  const venues = new Map<string, Venue>([
+    ['venues/zero', venueAt(0)],
+    ['venues/one', venueAt(1)],
+    ['venues/three', venueAt(3)],
+    ['venues/unknown', {} as Venue],
+  ]);
+  const recap = buildYearInReview(2024, [
+    concert(new Date(2024, 2, 1), { venueRef: 'venues/three' }),
+    concert(new Date(2024, 0, 1), { venueRef: 'venues/zero' }),
+    concert(new Date(2024, 1, 1), { venueRef: 'venues/one' }),
+    concert(new Date(2024, 3, 1), { venueRef: 'venues/unknown' }),
+  ], [], venues);
+
+  // 0 -> 1 -> 3 degrees is three degrees in all; the hop to the unknown venue counts as nothing
+  assert.equal(recap.milesTraveled, 207);
+  assert.equal(Math.round(milesBetween(venueAt(0), venueAt(1)) * 100) / 100, 69.09);
+  assert.equal(milesBetween(venueAt(0), undefined), 0);
+});
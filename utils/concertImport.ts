@@ -0,0 +1,223 @@
+import { ConcertImportFormat, ConcertImportRow, LogConcertFormData } from '../types';
+import { normalizeName } from './normalize';
+
+// Column names accepted in a CSV header (and keys in JSON objects), mapped to our fields
+const FIELD_ALIASES: Record<string, keyof ImportFields> = {
+  artist: 'artist',
+  artistname: 'artist',
+  headliner: 'artist',
+  venue: 'venue',
+  venuename: 'venue',
+  city: 'city',
+  date: 'date',
+  rating: 'rating',
+  notes: 'notes',
+};
+
+interface ImportFields {
+  artist: string;
+  venue: string;
+  city: string;
+  date: string;
+  rating: string;
+  notes: string;
+}
+
+export const IMPORT_CSV_TEMPLATE = 'artist,venue,city,date,rating,notes\nRadiohead,Madison Square Garden,New York,2016-07-27,5,"Encore was Creep!"';
+
+// Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and newlines).
+// Each row keeps the line it started on so errors point at the right place in the spreadsheet.
+const parseCsvRows = (text: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  rows.push({ line: rowLine, cells });
+
+  // Spreadsheets like to leave trailing blank lines
+  return rows.filter((row) => row.cells.some((value) => value.trim()));
+};
+
+const toFieldKey = (column: string) => FIELD_ALIASES[column.toLowerCase().replace(/[^a-z]/g, '')];
+
+// Local calendar date, or null when the day doesn't exist (Date would silently roll 2/30 into March)
+const toCalendarDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Accepts YYYY-MM-DD and US-style M/D/YYYY, falling back to whatever Date can parse
+const parseImportDate = (value: string): Date | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return toCalendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    return toCalendarDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Validate one row's fields, mirroring the checks LogConcertScreen applies to a single concert
+const validateFields = (line: number, fields: Partial<ImportFields>): ConcertImportRow => {
+  const errors: string[] = [];
+  const artistName = fields.artist?.trim() || '';
+  const venueName = fields.venue?.trim() || '';
+  const city = fields.city?.trim() || '';
+  const rating = Number(fields.rating);
+  const date = fields.date?.trim() ? parseImportDate(fields.date.trim()) : null;
+
+  if (!artistName) errors.push('Artist is required');
+  if (!venueName) errors.push('Venue is required');
+
+  if (!fields.date?.trim()) {
+    errors.push('Date is required');
+  } else if (!date) {
+    errors.push(`Unrecognized date "${fields.date.trim()}" (use YYYY-MM-DD)`);
+  } else if (date > new Date()) {
+    errors.push('Date cannot be in the future');
+  }
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push('Rating must be a whole number from 1 to 5');
+  }
+
+  if (errors.length > 0) {
+    return { line, concert: null, errors };
+  }
+
+  const concert: LogConcertFormData = {
+    artistName,
+    venueName,
+    date: date!,
+    rating,
+    notes: fields.notes?.trim() || '',
+  };
+  if (city) concert.venueDetails = { city };
+
+  return { line, concert, errors };
+};
+
+const parseCsv = (text: string): ConcertImportRow[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.cells.map(toFieldKey);
+  const missing = (['artist', 'venue', 'date', 'rating'] as const).filter((field) => !columns.includes(field));
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing required column(s): ${missing.join(', ')}`);
+  }
+
+  return rows.map(({ line, cells }) => {
+    const fields: Partial<ImportFields> = {};
+    columns.forEach((field, index) => {
+      if (field) fields[field] = cells[index] ?? '';
+    });
+    return validateFields(line, fields);
+  });
+};
+
+// JSON is either an array of concerts or { concerts: [...] }, using the same names as the CSV columns
+const parseJson = (text: string): ConcertImportRow[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : parsed?.concerts;
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON must be an array of concerts or an object with a "concerts" array');
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      return { line: index + 1, concert: null, errors: ['Entry is not an object'] };
+    }
+
+    const fields: Partial<ImportFields> = {};
+    Object.entries(entry).forEach(([key, value]) => {
+      const field = toFieldKey(key);
+      if (field && value !== null && value !== undefined) fields[field] = String(value);
+    });
+    return validateFields(index + 1, fields);
+  });
+};
+
+// Guess the format from the file name, then from the content
+export const detectImportFormat = (text: string, fileName?: string): ConcertImportFormat => {
+  if (fileName?.toLowerCase().endsWith('.json')) return 'json';
+  if (fileName?.toLowerCase().endsWith('.csv')) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+// Parse an import file into validated rows. Throws only when the file as a whole is unreadable;
+// problems with individual rows are reported on the row so the preview can show them.
+export const parseConcertImport = (text: string, format: ConcertImportFormat): ConcertImportRow[] => {
+  // Strip the byte-order mark Excel adds to UTF-8 exports
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = format === 'json' ? parseJson(content) : parseCsv(content);
+
+  // The same show listed twice in one file is almost certainly a copy/paste slip
+  const seen = new Map<string, number>();
+  rows.forEach((row) => {
+    if (!row.concert) return;
+
+    const key = [
+      normalizeName(row.concert.artistName),
+      normalizeName(row.concert.venueName),
+      row.concert.date.toDateString(),
+    ].join('|');
+
+    const firstLine = seen.get(key);
+    if (firstLine !== undefined) {
+      row.errors.push(`Duplicate of line ${firstLine}`);
+      row.concert = null;
+    } else {
+      seen.set(key, row.line);
+    }
+  });
+
+  return rows;
+};
@@ -0,0 +1,187 @@
+import { Artist, Concert, Venue } from '../types';
+
+// Personal statistics computed from a user's attendance logs. Everything here is pure:
+// callers load the concerts plus the artists and venues they point at and pass them in.
+
+export interface CountEntry {
+  key: string; // Grouping key, e.g. "2024", "2024-05" or an artist/venue path
+  label: string;
+  count: number;
+}
+
+export interface AverageEntry {
+  key: string;
+  label: string;
+  average: number;
+  count: number;
+}
+
+export interface ConcertGap {
+  days: number;
+  from: Date; // Last show before the gap
+  to: Date; // First show after it
+}
+
+export interface ConcertStats {
+  totalShows: number;
+  showsPerYear: CountEntry[]; // Oldest first
+  showsPerMonth: CountEntry[]; // Oldest first, only months with shows
+  topArtists: CountEntry[];
+  topVenues: CountEntry[];
+  cities: CountEntry[];
+  countries: CountEntry[];
+  averageRatingByYear: AverageEntry[]; // Oldest first
+  longestGap: ConcertGap | null;
+  busiestMonth: CountEntry | null;
+  genres: CountEntry[];
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shows are grouped by the local calendar day they happened on
+const toYearKey = (date: Date) => String(date.getFullYear());
+
+const toMonthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// "2024-05" -> "May 2024"
+export const formatMonthKey = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-');
+  return `${MONTH_NAMES[Number(month) - 1]} ${year}`;
+};
+
+// The last `months` calendar months up to and including `now`'s, with empty months as zero
+export const fillRecentMonths = (showsPerMonth: CountEntry[], months: number, now: Date = new Date()): CountEntry[] => {
+  const counts = new Map(showsPerMonth.map((entry) => [entry.key, entry.count]));
+
+  return Array.from({ length: months }, (_, index) => {
+    const key = toMonthKey(new Date(now.getFullYear(), now.getMonth() - (months - 1 - index), 1));
+    return { key, label: MONTH_NAMES[Number(key.slice(5)) - 1], count: counts.get(key) || 0 };
+  });
+};
+
+// Tally values into entries, most frequent first (ties broken alphabetically)
+const tally = (items: { key: string; label: string }[]): CountEntry[] => {
+  const counts = new Map<string, CountEntry>();
+  items.forEach(({ key, label }) => {
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { key, label, count: 1 });
+    }
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+const byKey = <T extends { key: string }>(a: T, b: T) => a.key.localeCompare(b.key);
+
+// Every act the user saw, headliner and support alike
+const getActs = (concert: Concert): { artistRef: string; artistName: string }[] => {
+  if (concert.artistRefs && concert.artistRefs.length > 0) {
+    return concert.artistRefs.map((artistRef, index) => ({
+      artistRef,
+      artistName: concert.artistNames?.[index] || concert.lineup?.[index]?.artistName || 'Unknown Artist',
+    }));
+  }
+  return [{ artistRef: concert.artistRef, artistName: concert.artistName || 'Unknown Artist' }];
+};
+
+// Longest stretch between two consecutive shows, in whole days
+export const findLongestGap = (dates: Date[]): ConcertGap | null => {
+  const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+  let longest: ConcertGap | null = null;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const days = Math.round((sorted[i].getTime() - sorted[i - 1].getTime()) / DAY_MS);
+    if (days > 0 && (!longest || days > longest.days)) {
+      longest = { days, from: sorted[i - 1], to: sorted[i] };
+    }
+  }
+
+  return longest;
+};
+
+export const computeConcertStats = (
+  concerts: Concert[],
+  artists: Map<string, Artist>,
+  venues: Map<string, Venue>
+): ConcertStats => {
+  const showsPerYear = tally(concerts.map((concert) => {
+    const key = toYearKey(concert.date);
+    return { key, label: key };
+  })).sort(byKey);
+
+  const showsPerMonth = tally(concerts.map((concert) => {
+    const key = toMonthKey(concert.date);
+    return { key, label: formatMonthKey(key) };
+  })).sort(byKey);
+
+  const acts = concerts.flatMap(getActs);
+  const topArtists = tally(acts.map(({ artistRef, artistName }) => ({
+    key: artistRef,
+    label: artists.get(artistRef)?.name || artistName,
+  })));
+
+  const topVenues = tally(concerts.map((concert) => ({
+    key: concert.venueRef,
+    label: venues.get(concert.venueRef)?.name || concert.venueName || 'Unknown Venue',
+  })));
+
+  // Cities keep their country so Portland, US and Portland, GB stay apart
+  const concertVenues = concerts
+    .map((concert) => venues.get(concert.venueRef))
+    .filter((venue): venue is Venue => !!venue);
+  const cities = tally(concertVenues
+    .filter((venue) => venue.city && venue.city !== 'Unknown')
+    .map((venue) => {
+      const country = venue.countryCode || venue.country || '';
+      return { key: `${venue.city!.toLowerCase()}|${country.toLowerCase()}`, label: venue.city! };
+    }));
+  const countries = tally(concertVenues
+    .map((venue) => venue.countryCode || venue.country)
+    .filter((country): country is string => !!country && country !== 'Unknown')
+    .map((country) => ({ key: country.toUpperCase(), label: country })));
+
+  const ratingsByYear = new Map<string, number[]>();
+  concerts
+    .filter((concert) => concert.rating >= 1 && concert.rating <= 5)
+    .forEach((concert) => {
+      const key = toYearKey(concert.date);
+      ratingsByYear.set(key, [...(ratingsByYear.get(key) || []), concert.rating]);
+    });
+  const averageRatingByYear = Array.from(ratingsByYear.entries())
+    .map(([key, ratings]) => ({
+      key,
+      label: key,
+      average: Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10,
+      count: ratings.length,
+    }))
+    .sort(byKey);
+
+  // Genres come from the artists themselves; each act counts once per show
+  const genres = tally(acts.flatMap(({ artistRef }) =>
+    Array.from(new Set(artists.get(artistRef)?.genre || [])).map((genre) => ({
+      key: genre.toLowerCase(),
+      label: genre,
+    }))
+  ));
+
+  const busiestMonth = [...showsPerMonth].sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))[0] || null;
+
+  return {
+    totalShows: concerts.length,
+    showsPerYear,
+    showsPerMonth,
+    topArtists,
+    topVenues,
+    cities,
+    countries,
+    averageRatingByYear,
+    longestGap: findLongestGap(concerts.map((concert) => concert.date)),
+    busiestMonth,
+    genres,
+  };
+};
@@ -0,0 +1,10 @@
+// Matching key for artist and venue names, so "The Beatles", "beatles " and "Beatlés"
+// all resolve to the same document. Never shown to users.
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics left behind by NFD
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
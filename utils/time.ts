@@ -0,0 +1,9 @@
+// Compact relative time for activity lists: "Just now", "5m ago", "3h ago", "2d ago"
+export const formatTimeAgo = (timestamp: Date, now: Date = new Date()): string => {
+  const diffInSeconds = Math.floor((now.getTime() - timestamp.getTime()) / 1000);
+
+  if (diffInSeconds < 60) return 'Just now';
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  return `${Math.floor(diffInSeconds / 86400)}d ago`;
+};
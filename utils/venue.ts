@@ -0,0 +1,31 @@
+import { Platform } from 'react-native';
+import { Venue } from '../types';
+
+// "City, Region, CC" from whatever location fields a venue has, including legacy ones
+export const formatVenueLocation = (venue: Partial<Venue>): string => {
+  const parts = [
+    venue.city,
+    venue.region || venue.state,
+    venue.countryCode || venue.country,
+  ].filter((part) => part && part !== 'Unknown');
+
+  return parts.join(', ');
+};
+
+// Link that opens the venue in the platform's maps app, or null if there is nothing to search for
+export const buildMapsUrl = (venue: Partial<Venue>): string | null => {
+  const hasPosition = venue.latitude !== undefined && venue.longitude !== undefined;
+  const searchText = venue.address || [venue.name, formatVenueLocation(venue)].filter(Boolean).join(', ');
+  if (!hasPosition && !searchText) return null;
+
+  const label = encodeURIComponent(venue.name || searchText);
+  if (Platform.OS === 'ios') {
+    return hasPosition
+      ? `https://maps.apple.com/?ll=${venue.latitude},${venue.longitude}&q=${label}`
+      : `https://maps.apple.com/?q=${encodeURIComponent(searchText)}`;
+  }
+
+  return hasPosition
+    ? `geo:${venue.latitude},${venue.longitude}?q=${venue.latitude},${venue.longitude}(${label})`
+    : `geo:0,0?q=${encodeURIComponent(searchText)}`;
+};
@@ -0,0 +1,118 @@
+import { Concert, Review, Venue } from '../types';
+
+// Annual recap ("wrapped") built from a user's concerts and reviews. Pure, like concertStats.ts:
+// callers pass in every concert the user has logged so new and repeat artists can be told apart.
+
+export interface YearInReview {
+  year: number;
+  totalShows: number;
+  newArtists: string[]; // Names of acts seen for the first time this year
+  repeatArtists: string[]; // Names of acts also seen in an earlier year
+  topArtist: { name: string; count: number } | null;
+  topRatedShow: Concert | null;
+  mostLikedReview: Review | null;
+  milesTraveled: number; // Venue to venue, in show order
+  venuesCount: number;
+  firstShow: Concert | null;
+  lastShow: Concert | null;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two venues, or 0 if either has no position
+export const milesBetween = (from?: Venue, to?: Venue): number => {
+  if (
+    from?.latitude === undefined || from?.longitude === undefined
+    || to?.latitude === undefined || to?.longitude === undefined
+  ) {
+    return 0;
+  }
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+// Every act on the bill, as [artistRef, name] pairs
+const getActs = (concert: Concert): [string, string][] => {
+  const refs = concert.artistRefs && concert.artistRefs.length > 0 ? concert.artistRefs : [concert.artistRef];
+  return refs.map((artistRef, index) => [
+    artistRef,
+    concert.artistNames?.[index] || (index === 0 ? concert.artistName : undefined) || 'Unknown Artist',
+  ]);
+};
+
+// Years that have at least one logged show, newest first
+export const getRecapYears = (concerts: Concert[]): number[] =>
+  Array.from(new Set(concerts.map((concert) => concert.date.getFullYear()))).sort((a, b) => b - a);
+
+export const buildYearInReview = (
+  year: number,
+  concerts: Concert[],
+  reviews: Review[],
+  venues: Map<string, Venue>
+): YearInReview => {
+  const chronological = [...concerts].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const yearConcerts = chronological.filter((concert) => concert.date.getFullYear() === year);
+
+  // Acts seen before this year, to split this year's acts into new and repeat
+  const seenBefore = new Set(
+    chronological
+      .filter((concert) => concert.date.getFullYear() < year)
+      .flatMap((concert) => getActs(concert).map(([artistRef]) => artistRef))
+  );
+
+  const yearActs = new Map<string, { name: string; count: number }>();
+  yearConcerts.forEach((concert) => {
+    getActs(concert).forEach(([artistRef, name]) => {
+      const act = yearActs.get(artistRef);
+      yearActs.set(artistRef, { name: act?.name || name, count: (act?.count || 0) + 1 });
+    });
+  });
+
+  const newArtists: string[] = [];
+  const repeatArtists: string[] = [];
+  yearActs.forEach(({ name }, artistRef) => {
+    (seenBefore.has(artistRef) ? repeatArtists : newArtists).push(name);
+  });
+
+  const topArtist = Array.from(yearActs.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))[0] || null;
+
+  // Highest rating wins; among equals, the earliest show of the year
+  const topRatedShow = yearConcerts.reduce<Concert | null>(
+    (best, concert) => (!best || concert.rating > best.rating ? concert : best),
+    null
+  );
+
+  const mostLikedReview = reviews
+    .filter((review) => review.createdAt.getFullYear() === year && review.text)
+    .reduce<Review | null>(
+      (best, review) => (!best || review.likesCount > best.likesCount ? review : best),
+      null
+    );
+
+  let milesTraveled = 0;
+  for (let i = 1; i < yearConcerts.length; i++) {
+    milesTraveled += milesBetween(venues.get(yearConcerts[i - 1].venueRef), venues.get(yearConcerts[i].venueRef));
+  }
+
+  return {
+    year,
+    totalShows: yearConcerts.length,
+    newArtists,
+    repeatArtists,
+    topArtist: topArtist && topArtist.count > 1 ? topArtist : null,
+    topRatedShow,
+    mostLikedReview,
+    milesTraveled: Math.round(milesTraveled),
+    venuesCount: new Set(yearConcerts.map((concert) => concert.venueRef)).size,
+    firstShow: yearConcerts[0] || null,
+    lastShow: yearConcerts[yearConcerts.length - 1] || null,
+  };
+};